@@ -2,20 +2,53 @@ import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { startOutboxSync } from '@/lib/outbox';
+import { configureReminderHandling } from '@/lib/reminders';
+import { applyTheme, loadPreferences } from '@/lib/preferences';
+import { blink } from '@/lib/blink';
 
 export default function RootLayout() {
   useFrameworkReady();
 
+  // Pushes answers and sessions recorded offline once we're back online
+  useEffect(() => startOutboxSync(), []);
+
+  useEffect(() => configureReminderHandling(), []);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (!state.user) return;
+      try {
+        applyTheme((await loadPreferences(state.user.id)).theme);
+      } catch (error) {
+        console.error('Error loading preferences:', error);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
   return (
     <>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="index" />
+        <Stack.Screen name="setup" />
         <Stack.Screen name="practice" />
+        <Stack.Screen name="drill" />
+        <Stack.Screen name="exam" />
         <Stack.Screen name="stats" />
+        <Stack.Screen name="bank" />
         <Stack.Screen name="streak" />
+        <Stack.Screen name="review" />
+        <Stack.Screen name="settings" />
+        <Stack.Screen name="moderation" />
+        <Stack.Screen name="admin" />
+        <Stack.Screen name="editor" />
+        <Stack.Screen name="items" />
+        <Stack.Screen name="area" />
         <Stack.Screen name="+not-found" />
       </Stack>
-      <StatusBar style="auto" />
+      {/* Every screen has a light background, whatever the scheme */}
+      <StatusBar style="dark" />
     </>
   );
 }
\ No newline at end of file
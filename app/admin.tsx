@@ -0,0 +1,534 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Plus, Search, Shield, Database, BarChart3, CheckSquare, Square } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AuthUser, loadUserProfile } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { Question } from '@/lib/questions';
+import { isRetired, loadQuestionBank } from '@/lib/questionBank';
+import { QUESTION_TYPE_LABELS, getQuestionType } from '@/lib/questionTypes';
+import { isAdmin } from '@/lib/moderation';
+import { DIFFICULTIES, ECO_DOMAINS } from '@/lib/sessionConfig';
+import {
+  BulkChanges,
+  DEFAULT_QUESTION_FILTER,
+  QuestionFilter,
+  RETIRED_FILTER_LABELS,
+  RetiredFilter,
+  bulkUpdateQuestions,
+  filterQuestions
+} from '@/lib/questionAdmin';
+import { Chip } from '@/components/Chip';
+
+// Rendering thousands of rows at once is slow; filters narrow it down
+const MAX_LISTED_QUESTIONS = 100;
+
+export default function Admin() {
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [bank, setBank] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<QuestionFilter>(DEFAULT_QUESTION_FILTER);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmRetire, setConfirmRetire] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        setAuthUser(state.user);
+        await loadData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Coming back from the editor may have added or changed a question
+  useFocusEffect(useCallback(() => {
+    if (authUser) loadBank();
+  }, [authUser]));
+
+  const loadData = async (authUser: AuthUser) => {
+    try {
+      const profile = await loadUserProfile(authUser, { fresh: true });
+      setUser(profile);
+      if (isAdmin(profile)) await loadBank();
+    } catch (error) {
+      console.error('Error loading admin data:', error);
+      Alert.alert('Error', 'Failed to load the question bank. Please try again.');
+    }
+  };
+
+  const loadBank = async () => {
+    try {
+      setBank(await loadQuestionBank({ includeRetired: true }));
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+    }
+  };
+
+  const updateFilter = (changes: Partial<QuestionFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    setSelectedIds(new Set());
+    setConfirmRetire(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setConfirmRetire(false);
+  };
+
+  const applyBulk = async (changes: BulkChanges) => {
+    if (!user) return;
+    const selected = bank.filter(question => selectedIds.has(question.id));
+    try {
+      setBusy(true);
+      const updated = await bulkUpdateQuestions(selected, changes, user.id);
+      const updatedById = new Map(updated.map(question => [question.id, question]));
+      setBank(prev => prev.map(question => updatedById.get(question.id) ?? question));
+      setSelectedIds(new Set());
+      setConfirmRetire(false);
+    } catch (error) {
+      console.error('Error updating questions:', error);
+      Alert.alert('Error', 'Failed to update the selected questions. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Manage Questions</Text>
+      {isAdmin(user) ? (
+        <TouchableOpacity onPress={() => router.push('/editor')} style={styles.backButton}>
+          <Plus size={24} color="#2563EB" />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.headerRight} />
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#2563EB" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!isAdmin(user)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Only admins can manage the question bank.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const knowledgeAreas = Array.from(new Set(
+    bank.filter(question => !filter.category || question.category === filter.category).map(question => question.knowledgeArea)
+  )).filter(Boolean).sort();
+  const matches = filterQuestions(bank, filter);
+  const listed = matches.slice(0, MAX_LISTED_QUESTIONS);
+  const allListedSelected = listed.length > 0 && listed.every(question => selectedIds.has(question.id));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.linkRow}>
+          <TouchableOpacity style={styles.linkButton} onPress={() => router.push('/moderation')}>
+            <Shield size={18} color="#2563EB" />
+            <Text style={styles.linkText}>Reports</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={() => router.push('/items')}>
+            <BarChart3 size={18} color="#2563EB" />
+            <Text style={styles.linkText}>Item Stats</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={() => router.push('/bank')}>
+            <Database size={18} color="#2563EB" />
+            <Text style={styles.linkText}>Import</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.searchRow}>
+            <Search size={18} color="#94A3B8" />
+            <TextInput
+              style={styles.searchInput}
+              value={filter.search}
+              onChangeText={search => updateFilter({ search })}
+              placeholder="Search text, options or id"
+              placeholderTextColor="#94A3B8"
+              autoCorrect={false}
+            />
+          </View>
+
+          <Text style={styles.filterLabel}>Domain</Text>
+          <View style={styles.chipRow}>
+            <Chip label="Any" selected={!filter.category} onPress={() => updateFilter({ category: '', knowledgeArea: '' })} />
+            {ECO_DOMAINS.map(domain => (
+              <Chip
+                key={domain}
+                label={domain}
+                selected={filter.category === domain}
+                onPress={() => updateFilter({ category: domain, knowledgeArea: '' })}
+              />
+            ))}
+          </View>
+
+          {knowledgeAreas.length > 0 && (
+            <>
+              <Text style={styles.filterLabel}>Knowledge Area</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <Chip label="Any" selected={!filter.knowledgeArea} onPress={() => updateFilter({ knowledgeArea: '' })} />
+                {knowledgeAreas.map(area => (
+                  <Chip
+                    key={area}
+                    label={area}
+                    selected={filter.knowledgeArea === area}
+                    onPress={() => updateFilter({ knowledgeArea: area })}
+                  />
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          <Text style={styles.filterLabel}>Difficulty</Text>
+          <View style={styles.chipRow}>
+            <Chip label="Any" selected={!filter.difficulty} onPress={() => updateFilter({ difficulty: '' })} />
+            {DIFFICULTIES.map(difficulty => (
+              <Chip
+                key={difficulty}
+                label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                selected={filter.difficulty === difficulty}
+                onPress={() => updateFilter({ difficulty })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.filterLabel}>Status</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(RETIRED_FILTER_LABELS) as RetiredFilter[]).map(option => (
+              <Chip
+                key={option}
+                label={RETIRED_FILTER_LABELS[option]}
+                selected={filter.retired === option}
+                onPress={() => updateFilter({ retired: option })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.resultsHeader}>
+          <Text style={styles.resultsText}>
+            {matches.length} {matches.length === 1 ? 'question' : 'questions'}
+            {matches.length > listed.length && ` · showing the first ${listed.length}`}
+          </Text>
+          {listed.length > 0 && (
+            <TouchableOpacity
+              onPress={() => {
+                setSelectedIds(allListedSelected ? new Set() : new Set(listed.map(question => question.id)));
+                setConfirmRetire(false);
+              }}
+            >
+              <Text style={styles.linkText}>{allListedSelected ? 'Clear selection' : 'Select shown'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {selectedIds.size > 0 && (
+          <View style={styles.bulkCard}>
+            <Text style={styles.bulkTitle}>{selectedIds.size} selected</Text>
+            <Text style={styles.filterLabel}>Set difficulty</Text>
+            <View style={styles.chipRow}>
+              {DIFFICULTIES.map(difficulty => (
+                <Chip
+                  key={difficulty}
+                  label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                  selected={false}
+                  onPress={() => applyBulk({ difficulty })}
+                  disabled={busy}
+                />
+              ))}
+            </View>
+            <View style={styles.bulkActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => applyBulk({ retired: 0 })} disabled={busy}>
+                <Text style={styles.secondaryButtonText}>Restore</Text>
+              </TouchableOpacity>
+              {confirmRetire ? (
+                <TouchableOpacity style={styles.dangerButton} onPress={() => applyBulk({ retired: 1 })} disabled={busy}>
+                  <Text style={styles.dangerButtonText}>{busy ? 'Retiring...' : `Confirm Retire ${selectedIds.size}`}</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setConfirmRetire(true)} disabled={busy}>
+                  <Text style={styles.dangerText}>Retire</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {listed.map(question => {
+          const selected = selectedIds.has(question.id);
+          return (
+            <View key={question.id} style={[styles.questionRow, selected && styles.questionRowSelected]}>
+              <TouchableOpacity onPress={() => toggleSelected(question.id)} style={styles.checkbox}>
+                {selected ? <CheckSquare size={20} color="#2563EB" /> : <Square size={20} color="#94A3B8" />}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.questionBody}
+                onPress={() => router.push({ pathname: '/editor', params: { id: question.id } })}
+              >
+                <Text style={styles.questionText} numberOfLines={2}>{question.questionText}</Text>
+                <View style={styles.metaRow}>
+                  <Text style={styles.metaTag}>{question.category}</Text>
+                  <Text style={styles.metaText}>{question.knowledgeArea}</Text>
+                  <Text style={styles.metaText}>· {question.difficulty}</Text>
+                  <Text style={styles.metaText}>· {QUESTION_TYPE_LABELS[getQuestionType(question)]}</Text>
+                  {isRetired(question) && <Text style={styles.retiredTag}>Retired</Text>}
+                </View>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+
+        {matches.length === 0 && <Text style={styles.emptyText}>No questions match these filters.</Text>}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  linkButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#1E293B',
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resultsText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  bulkCard: {
+    backgroundColor: '#EFF6FF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  bulkTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  secondaryButtonText: {
+    color: '#475569',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#DC2626',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  dangerButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dangerText: {
+    color: '#DC2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  questionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  questionRowSelected: {
+    borderColor: '#2563EB',
+  },
+  checkbox: {
+    paddingRight: 12,
+    paddingTop: 2,
+  },
+  questionBody: {
+    flex: 1,
+  },
+  questionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  metaTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  retiredTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B91C1C',
+    backgroundColor: '#FEF2F2',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
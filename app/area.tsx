@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, CheckCircle, XCircle, MinusCircle, BookOpen } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AreaHistory, loadAreaHistory, masteryColor } from '@/lib/mastery';
+import { loadPreferences } from '@/lib/preferences';
+import { DEFAULT_SESSION_CONFIG, serializeSessionConfig } from '@/lib/sessionConfig';
+
+const formatWeek = (weekStart: string) => {
+  const [, month, day] = weekStart.split('-').map(Number);
+  return `${month}/${day}`;
+};
+
+export default function AreaDetail() {
+  const { domain, area } = useLocalSearchParams<{ domain: string; area: string }>();
+  const [history, setHistory] = useState<AreaHistory | null>(null);
+  const [questionCount, setQuestionCount] = useState(DEFAULT_SESSION_CONFIG.questionCount);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user && domain && area) {
+        await loadHistory(state.user.id);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, [domain, area]);
+
+  const loadHistory = async (userId: string) => {
+    try {
+      const [loaded, preferences] = await Promise.all([loadAreaHistory(userId, domain, area), loadPreferences(userId)]);
+      setHistory(loaded);
+      setQuestionCount(preferences.questionsPerSession);
+    } catch (error) {
+      console.error('Error loading knowledge area history:', error);
+    }
+  };
+
+  const practiceArea = () => {
+    router.push({
+      pathname: '/practice',
+      params: { config: serializeSessionConfig({ ...DEFAULT_SESSION_CONFIG, domains: [domain], knowledgeAreas: [area], questionCount }) }
+    });
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} numberOfLines={1}>{area}</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading || !history) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#2563EB" />
+          ) : (
+            <Text style={styles.emptyText}>Couldn't load this knowledge area.</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const totalAttempts = history.questions.reduce((sum, item) => sum + item.attempts, 0);
+  const totalCorrect = history.questions.reduce((sum, item) => sum + item.correct, 0);
+  const attempted = history.questions.filter(item => item.attempts > 0).length;
+  const maxAnswered = Math.max(1, ...history.cells.map(cell => cell.answered));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.domainTag}>{history.domain}</Text>
+          <Text style={styles.summaryText}>
+            {attempted} of {history.questions.length} questions attempted
+            {totalAttempts > 0 && ` · ${Math.round((totalCorrect / totalAttempts) * 100)}% correct overall`}
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, history.questions.length === 0 && styles.disabledButton]}
+            onPress={practiceArea}
+            disabled={history.questions.length === 0}
+          >
+            <BookOpen size={18} color="white" />
+            <Text style={styles.primaryButtonText}>Practice This Area</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Weekly History</Text>
+          {history.cells.map(cell => (
+            <View key={cell.weekStart} style={styles.weekRow}>
+              <Text style={styles.weekLabel}>{formatWeek(cell.weekStart)}</Text>
+              <View style={styles.weekBar}>
+                <View
+                  style={[
+                    styles.weekFill,
+                    { width: `${Math.round((cell.answered / maxAnswered) * 100)}%`, backgroundColor: masteryColor(cell.mastery) }
+                  ]}
+                />
+              </View>
+              <Text style={styles.weekStats}>
+                {cell.answered > 0 ? `${cell.correct}/${cell.answered}` : '—'}
+              </Text>
+              <Text style={styles.weekMastery}>
+                {cell.mastery === null ? '' : `${Math.round(cell.mastery * 100)}%`}
+              </Text>
+            </View>
+          ))}
+          <Text style={styles.hintText}>Bars show answers per week; the percentage is the mastery estimate.</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Questions</Text>
+          {history.questions.length === 0 && <Text style={styles.emptyText}>No questions in this area yet.</Text>}
+          {history.questions.map(item => (
+            <View key={item.question.id} style={styles.questionRow}>
+              {item.lastCorrect === null ? (
+                <MinusCircle size={16} color="#94A3B8" />
+              ) : item.lastCorrect ? (
+                <CheckCircle size={16} color="#10B981" />
+              ) : (
+                <XCircle size={16} color="#EF4444" />
+              )}
+              <View style={styles.questionBody}>
+                <Text style={styles.questionText} numberOfLines={2}>{item.question.questionText}</Text>
+                <Text style={styles.metaText}>
+                  {item.attempts === 0
+                    ? 'Not attempted'
+                    : `${item.correct}/${item.attempts} correct · last ${new Date(item.lastAnsweredAt!).toLocaleDateString()}`}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  headerRight: {
+    width: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  domainTag: {
+    alignSelf: 'flex-start',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#475569',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2563EB',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  weekLabel: {
+    width: 40,
+    fontSize: 12,
+    color: '#64748B',
+  },
+  weekBar: {
+    flex: 1,
+    height: 10,
+    backgroundColor: '#F1F5F9',
+    borderRadius: 5,
+    overflow: 'hidden',
+  },
+  weekFill: {
+    height: '100%',
+  },
+  weekStats: {
+    width: 44,
+    fontSize: 12,
+    color: '#475569',
+    textAlign: 'right',
+  },
+  weekMastery: {
+    width: 36,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1E293B',
+    textAlign: 'right',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 6,
+  },
+  questionRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  questionBody: {
+    flex: 1,
+  },
+  questionText: {
+    fontSize: 14,
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Download, Upload, CheckCircle, XCircle, Copy } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { Question } from '@/lib/questions';
+import { isRetired, loadQuestionBank } from '@/lib/questionBank';
+import { AuthUser, loadUserProfile } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { isAdmin } from '@/lib/moderation';
+import { saveQuestions } from '@/lib/questionAdmin';
+import { pickTextFile, shareTextFile } from '@/lib/fileTransfer';
+import {
+  ImportReport,
+  QuestionFileFormat,
+  detectFormat,
+  exportQuestions,
+  parseQuestionFile,
+  validateQuestionRecords,
+} from '@/lib/questionImport';
+
+const MIME_TYPES: Record<QuestionFileFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Long reports are truncated on screen; the counts always cover every row
+const MAX_LISTED_ROWS = 50;
+
+export default function QuestionBank() {
+  const [user, setUser] = useState<User | null>(null);
+  const [bank, setBank] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        await loadData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadData = async (authUser: AuthUser) => {
+    try {
+      const profile = await loadUserProfile(authUser, { fresh: true });
+      setUser(profile);
+      if (isAdmin(profile)) await loadBank();
+    } catch (error) {
+      console.error('Error loading user data:', error);
+    }
+  };
+
+  const loadBank = async () => {
+    try {
+      setBank(await loadQuestionBank({ includeRetired: true }));
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+    }
+  };
+
+  const exportBank = async (format: QuestionFileFormat) => {
+    try {
+      setBusy(true);
+      const date = new Date().toISOString().split('T')[0];
+      await shareTextFile(`pmp-questions-${date}.${format}`, exportQuestions(bank, format), MIME_TYPES[format]);
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      Alert.alert('Error', 'Failed to export questions. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseFile = async () => {
+    try {
+      const file = await pickTextFile(Object.values(MIME_TYPES));
+      if (!file) return;
+
+      const format = detectFormat(file.name);
+      if (!format) {
+        Alert.alert('Unsupported File', 'Choose a .csv or .json file.');
+        return;
+      }
+
+      setFileName(file.name);
+      setImportedCount(null);
+      setReport(validateQuestionRecords(parseQuestionFile(file.text, format), bank));
+    } catch (error) {
+      console.error('Error reading question file:', error);
+      setReport(null);
+      Alert.alert('Error', `Could not read the file: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const importQuestions = async () => {
+    if (!user || !report || report.valid.length === 0) return;
+    try {
+      setBusy(true);
+      // Through the version history like any other admin edit
+      const existing = new Map(bank.map(question => [question.id, question]));
+      await saveQuestions(
+        report.valid.map(question => ({ question, previous: existing.get(question.id) ?? null })),
+        user.id
+      );
+      setImportedCount(report.valid.length);
+      setReport(null);
+      await loadBank();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      Alert.alert('Error', 'Failed to import questions. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563EB" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Question Bank</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (!isAdmin(user)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Only admins can import and export questions.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const retiredCount = bank.filter(isRetired).length;
+  // CSV problems point at a line in the file, JSON ones at a position in the array
+  const rowLabel = fileName && detectFormat(fileName) === 'csv' ? 'Line' : 'Question';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Export</Text>
+          <Text style={styles.cardSubtitle}>
+            {bank.length} {bank.length === 1 ? 'question' : 'questions'} in the bank
+            {retiredCount > 0 && ` (${retiredCount} retired)`}
+          </Text>
+          <View style={styles.buttonRow}>
+            {(['csv', 'json'] as QuestionFileFormat[]).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.outlineButton, (busy || bank.length === 0) && styles.disabledButton]}
+                onPress={() => exportBank(format)}
+                disabled={busy || bank.length === 0}
+              >
+                <Download size={18} color="#2563EB" />
+                <Text style={styles.outlineButtonText}>{format.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Import</Text>
+          <Text style={styles.cardSubtitle}>
+            CSV with a header row, or a JSON array, using the columns questionText, optionA–optionD,
+            correctAnswer (A–D), explanation, category, knowledgeArea and difficulty. The id, questionType
+            (single, multiple, matching, hotspot or fill_in), payload (JSON for the non-choice types), rationales
+            (JSON object of option letter to rationale) and references (JSON array) columns are optional.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.disabledButton]}
+            onPress={chooseFile}
+            disabled={busy}
+          >
+            <Upload size={20} color="white" />
+            <Text style={styles.primaryButtonText}>Choose File</Text>
+          </TouchableOpacity>
+
+          {importedCount !== null && (
+            <View style={styles.successBanner}>
+              <CheckCircle size={18} color="#10B981" />
+              <Text style={styles.successText}>
+                Imported {importedCount} {importedCount === 1 ? 'question' : 'questions'}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {report && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{fileName}</Text>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <CheckCircle size={16} color="#10B981" />
+                <Text style={styles.summaryText}>{report.valid.length} ready</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Copy size={16} color="#F59E0B" />
+                <Text style={styles.summaryText}>{report.duplicates.length} duplicates</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <XCircle size={16} color="#EF4444" />
+                <Text style={styles.summaryText}>{report.errors.length} errors</Text>
+              </View>
+            </View>
+
+            {report.errors.slice(0, MAX_LISTED_ROWS).map(error => (
+              <View key={`error-${error.row}`} style={styles.reportRow}>
+                <Text style={[styles.reportRowLabel, { color: '#EF4444' }]}>{rowLabel} {error.row}</Text>
+                <Text style={styles.reportRowText}>{error.messages.join('; ')}</Text>
+              </View>
+            ))}
+
+            {report.duplicates.slice(0, MAX_LISTED_ROWS).map(duplicate => (
+              <View key={`duplicate-${duplicate.row}`} style={styles.reportRow}>
+                <Text style={[styles.reportRowLabel, { color: '#F59E0B' }]}>{rowLabel} {duplicate.row}</Text>
+                <Text style={styles.reportRowText} numberOfLines={2}>
+                  Skipped, {duplicate.reason}: {duplicate.questionText}
+                </Text>
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (busy || report.valid.length === 0) && styles.disabledButton]}
+              onPress={importQuestions}
+              disabled={busy || report.valid.length === 0}
+            >
+              <Upload size={20} color="white" />
+              <Text style={styles.primaryButtonText}>
+                Import {report.valid.length} {report.valid.length === 1 ? 'Question' : 'Questions'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+    padding: 20,
+  },
+  card: {
+    margin: 20,
+    marginBottom: 0,
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  outlineButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#2563EB',
+  },
+  outlineButtonText: {
+    color: '#2563EB',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  successBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+  },
+  successText: {
+    fontSize: 14,
+    color: '#065F46',
+    marginLeft: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  summaryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#1E293B',
+    marginLeft: 6,
+  },
+  reportRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  reportRowLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  reportRowText: {
+    fontSize: 14,
+    color: '#475569',
+  },
+});
@@ -0,0 +1,513 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Crosshair, RotateCcw } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { blink } from '@/lib/blink';
+import { Question } from '@/lib/questions';
+import { gradeResponse, isResponseComplete } from '@/lib/questionTypes';
+import { createId } from '@/lib/sessions';
+import { queueStudySession, queueUpserts } from '@/lib/outbox';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { answersRepository } from '@/lib/repository';
+import { recordReview } from '@/lib/spacedRepetition';
+import { GradedAnswer } from '@/lib/stats';
+import { loadPreferences } from '@/lib/preferences';
+import { resultFeedback, selectionFeedback } from '@/lib/haptics';
+import {
+  DRILL_LENGTH,
+  WeakArea,
+  adjustDifficulty,
+  computeAreaWeights,
+  getWeakAreas,
+  initialDifficulty,
+  pickNextQuestion,
+} from '@/lib/adaptive';
+import { useQuestionTimer } from '@/hooks/useQuestionTimer';
+import { QuestionCard } from '@/components/QuestionCard';
+import { QuestionResponse } from '@/components/QuestionResponse';
+import { ExplanationPanel } from '@/components/ExplanationPanel';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function WeakSpotDrill() {
+  const [user, setUser] = useState<any>(null);
+  const [pool, setPool] = useState<Question[]>([]);
+  const [history, setHistory] = useState<GradedAnswer[]>([]);
+  const [weakAreas, setWeakAreas] = useState<WeakArea[]>([]);
+  const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
+  const [askedIds, setAskedIds] = useState<Set<string>>(new Set());
+  const [difficulty, setDifficulty] = useState('medium');
+  const [recentResults, setRecentResults] = useState<boolean[]>([]);
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [showExplanation, setShowExplanation] = useState(false);
+  const [sessionResults, setSessionResults] = useState<boolean[]>([]);
+  const [sessionComplete, setSessionComplete] = useState(false);
+  const [sessionId, setSessionId] = useState(() => createId('session'));
+  const [loading, setLoading] = useState(true);
+  const [haptics, setHaptics] = useState(false);
+  const questionTimer = useQuestionTimer(
+    showExplanation || sessionComplete ? null : currentQuestion?.id ?? null
+  );
+  const canSubmit = !!currentQuestion && isResponseComplete(currentQuestion, selectedAnswer);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        setUser(state.user);
+        loadPreferences(state.user.id)
+          .then(preferences => setHaptics(preferences.haptics))
+          .catch(error => console.error('Error loading preferences:', error));
+        await loadDrill(state.user.id);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Without history (e.g. offline) every area is weighted equally
+  const loadHistory = async (userId: string): Promise<GradedAnswer[]> => {
+    try {
+      return await answersRepository.list({
+        where: { userId },
+        orderBy: { answeredAt: 'desc' },
+        limit: 500
+      });
+    } catch (error) {
+      console.error('Error loading answer history:', error);
+      return [];
+    }
+  };
+
+  const loadDrill = async (userId: string) => {
+    try {
+      setLoading(true);
+      const [answers, questions] = await Promise.all([loadHistory(userId), loadQuestionBank()]);
+
+      if (!questions || questions.length === 0) {
+        Alert.alert('Error', 'No questions available. Please try again later.');
+        return;
+      }
+
+      const startDifficulty = initialDifficulty(answers);
+      setPool(questions);
+      setHistory(answers);
+      setWeakAreas(getWeakAreas(answers, questions));
+      setDifficulty(startDifficulty);
+      setRecentResults([]);
+      setAskedIds(new Set());
+      setSessionResults([]);
+      setCurrentQuestion(pickNextQuestion(questions, computeAreaWeights(answers, questions), startDifficulty, new Set()));
+    } catch (error) {
+      console.error('Error loading drill:', error);
+      Alert.alert('Error', 'Failed to load questions. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitAnswer = async () => {
+    if (!selectedAnswer || !user || !currentQuestion || !canSubmit) return;
+
+    const score = gradeResponse(currentQuestion, selectedAnswer);
+    const isCorrect = score === 1;
+    resultFeedback(haptics, isCorrect);
+    const timing = questionTimer.getTimings()[currentQuestion.id];
+    setShowExplanation(true);
+    setSessionResults(prev => [...prev, isCorrect]);
+    setHistory(prev => [{ questionId: currentQuestion.id, isCorrect: isCorrect ? 1 : 0 }, ...prev]);
+
+    const adjusted = adjustDifficulty(difficulty, [...recentResults, isCorrect]);
+    setDifficulty(adjusted.difficulty);
+    setRecentResults(adjusted.window);
+
+    try {
+      await queueUpserts('userAnswers', [{
+        id: createId('answer'),
+        userId: user.id,
+        sessionId,
+        questionId: currentQuestion.id,
+        selectedAnswer,
+        isCorrect: isCorrect ? 1 : 0,
+        score,
+        wasChanged: 0,
+        originalAnswer: null,
+        isFlagged: 0,
+        timeSpentMs: timing?.timeSpentMs ?? null,
+        backgroundMs: timing?.backgroundMs ?? null,
+        questionVersionId: currentQuestion.versionId ?? null,
+        answeredAt: new Date().toISOString(),
+        aggregatedAt: null
+      }]);
+      await recordReview(user.id, currentQuestion.id, isCorrect);
+    } catch (error) {
+      console.error('Error saving answer:', error);
+    }
+  };
+
+  const nextQuestion = () => {
+    if (!currentQuestion) return;
+    const asked = new Set(askedIds).add(currentQuestion.id);
+    const next = sessionResults.length < DRILL_LENGTH
+      ? pickNextQuestion(pool, computeAreaWeights(history, pool), difficulty, asked)
+      : null;
+
+    if (!next) {
+      completeSession();
+      return;
+    }
+
+    setAskedIds(asked);
+    setCurrentQuestion(next);
+    setSelectedAnswer(null);
+    setShowExplanation(false);
+  };
+
+  const completeSession = async () => {
+    if (!user) return;
+    const correctCount = sessionResults.filter(Boolean).length;
+
+    try {
+      await queueStudySession(sessionId, user, {
+        sessionType: 'drill',
+        questionsAnswered: sessionResults.length,
+        correctAnswers: correctCount,
+        sessionDuration: questionTimer.getSessionDuration()
+      });
+      setSessionComplete(true);
+    } catch (error) {
+      console.error('Error completing drill:', error);
+      Alert.alert('Error', 'Failed to save progress. Please try again.');
+    }
+  };
+
+  const restartDrill = () => {
+    setSelectedAnswer(null);
+    setShowExplanation(false);
+    setSessionComplete(false);
+    setSessionId(createId('session'));
+    questionTimer.reset();
+    if (user) loadDrill(user.id);
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Weak-Spot Drill</Text>
+      <View style={styles.headerRight}>
+        {!sessionComplete && currentQuestion && (
+          <Text style={styles.questionCounter}>
+            {Math.min(sessionResults.length + (showExplanation ? 0 : 1), DRILL_LENGTH)}/{DRILL_LENGTH}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563EB" />
+          <Text style={styles.loadingText}>Finding your weak spots...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (sessionComplete) {
+    const correctCount = sessionResults.filter(Boolean).length;
+    const percentage = sessionResults.length > 0 ? Math.round((correctCount / sessionResults.length) * 100) : 0;
+
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.resultsContainer}>
+          <LinearGradient
+            colors={percentage >= 80 ? ['#10B981', '#059669'] : percentage >= 60 ? ['#F59E0B', '#D97706'] : ['#EF4444', '#DC2626']}
+            style={styles.resultCard}
+          >
+            <Text style={styles.resultTitle}>Drill Complete</Text>
+            <Text style={styles.resultScore}>{correctCount}/{sessionResults.length}</Text>
+            <Text style={styles.resultPercentage}>{percentage}% Correct</Text>
+            <Text style={styles.resultMessage}>Finished at {capitalize(difficulty)} difficulty</Text>
+          </LinearGradient>
+
+          <View style={styles.actionButtons}>
+            {sessionResults.length > 0 && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => router.push({ pathname: '/review', params: { sessionId } })}
+              >
+                <Text style={styles.secondaryButtonText}>Review Answers</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.primaryButton} onPress={restartDrill}>
+              <RotateCcw size={20} color="white" />
+              <Text style={styles.primaryButtonText}>Drill Again</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => router.back()}>
+              <Text style={styles.secondaryButtonText}>Back to Home</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  if (!currentQuestion) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>No questions available</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => user && loadDrill(user.id)}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <View style={styles.focusBar}>
+        <Crosshair size={16} color="#F59E0B" />
+        <Text style={styles.focusText} numberOfLines={1}>
+          {weakAreas.length > 0
+            ? `Focus: ${weakAreas.map(area => `${area.name} (${area.accuracy}%)`).join(', ')}`
+            : 'Focus: building your baseline'}
+        </Text>
+        <View style={styles.difficultyBadge}>
+          <Text style={styles.difficultyText}>{capitalize(difficulty)}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <QuestionCard question={currentQuestion} />
+
+        <QuestionResponse
+          question={currentQuestion}
+          response={selectedAnswer}
+          onChange={answer => {
+            selectionFeedback(haptics);
+            setSelectedAnswer(answer);
+          }}
+          showResult={showExplanation}
+        />
+
+        {showExplanation && (
+          <ExplanationPanel question={currentQuestion} selectedAnswer={selectedAnswer} />
+        )}
+
+        <View style={styles.actionContainer}>
+          {!showExplanation ? (
+            <TouchableOpacity
+              style={[styles.submitButton, !canSubmit && styles.disabledButton]}
+              onPress={submitAnswer}
+              disabled={!canSubmit}
+            >
+              <Text style={styles.submitButtonText}>Submit Answer</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.nextButton} onPress={nextQuestion}>
+              <Text style={styles.nextButtonText}>
+                {sessionResults.length < DRILL_LENGTH ? 'Next Question' : 'Complete Drill'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    minWidth: 32,
+  },
+  questionCounter: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  focusBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'white',
+    gap: 8,
+  },
+  focusText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  difficultyBadge: {
+    backgroundColor: '#FFFBEB',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  difficultyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748B',
+    marginTop: 12,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#64748B',
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actionContainer: {
+    padding: 20,
+  },
+  submitButton: {
+    backgroundColor: '#2563EB',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  nextButton: {
+    backgroundColor: '#10B981',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  nextButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resultsContainer: {
+    padding: 20,
+  },
+  resultCard: {
+    padding: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  resultTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: 'white',
+    marginBottom: 16,
+  },
+  resultScore: {
+    fontSize: 48,
+    fontWeight: '800',
+    color: 'white',
+    marginBottom: 8,
+  },
+  resultPercentage: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 16,
+  },
+  resultMessage: {
+    fontSize: 16,
+    color: 'white',
+    textAlign: 'center',
+    opacity: 0.9,
+  },
+  actionButtons: {
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,650 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, AlertTriangle, History } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AuthUser, loadUserProfile, questionsRepository } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { ANSWER_KEYS, Question, QuestionType } from '@/lib/questions';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS, getQuestionType } from '@/lib/questionTypes';
+import { isRetired } from '@/lib/questionBank';
+import { isAdmin } from '@/lib/moderation';
+import { DIFFICULTIES, ECO_DOMAINS } from '@/lib/sessionConfig';
+import { createBlankQuestion, saveQuestion, validateQuestionDraft } from '@/lib/questionAdmin';
+import {
+  FIELD_LABELS,
+  GRADING_FIELDS,
+  QuestionVersion,
+  affectsGrading,
+  changedFields,
+  listChangedFields,
+  loadVersionHistory,
+  parseSnapshot
+} from '@/lib/questionVersions';
+import { Chip } from '@/components/Chip';
+import { QuestionCard } from '@/components/QuestionCard';
+import { QuestionResponse } from '@/components/QuestionResponse';
+import { ExplanationPanel } from '@/components/ExplanationPanel';
+
+// What `correctAnswer` looks like for each type; see lib/questionTypes
+const ANSWER_HINTS: Record<QuestionType, string> = {
+  single: 'One letter, e.g. B',
+  multiple: 'Letters separated by commas, e.g. A,C',
+  matching: 'Choice index for each prompt, in order, e.g. 2,0,1',
+  hotspot: 'Region id; several ids separated by commas are all accepted',
+  fill_in: 'The answer; alternatives separated by |',
+};
+
+const PAYLOAD_HINTS: Partial<Record<QuestionType, string>> = {
+  multiple: 'Optional: {"options": [...]} for more than four options',
+  matching: '{"prompts": [...], "choices": [...]}',
+  hotspot: '{"imageUrl": "...", "regions": [{"id", "label", "x", "y", "width", "height"}]}',
+  fill_in: 'Optional: {"unit": "days", "tolerance": 0.5}',
+};
+
+type TextField = 'questionText' | 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'correctAnswer' | 'explanation' | 'knowledgeArea';
+
+const TEXT_FIELDS: TextField[] = [
+  'questionText',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctAnswer',
+  'explanation',
+  'knowledgeArea',
+];
+
+const cleanDraft = (draft: Question): Question => {
+  const cleaned: Question = {
+    ...draft,
+    payload: draft.payload?.trim() || null,
+    rationales: draft.rationales?.trim() || null,
+    references: draft.references?.trim() || null,
+  };
+  TEXT_FIELDS.forEach(field => {
+    cleaned[field] = String(draft[field] ?? '').trim();
+  });
+  return cleaned;
+};
+
+export default function QuestionEditor() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const [user, setUser] = useState<User | null>(null);
+  const [previous, setPrevious] = useState<Question | null>(null);
+  const [draft, setDraft] = useState<Question | null>(null);
+  const [history, setHistory] = useState<QuestionVersion[]>([]);
+  const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null);
+  const [previewResponse, setPreviewResponse] = useState<string | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [confirmRetire, setConfirmRetire] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        await loadData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, [id]);
+
+  const loadData = async (authUser: AuthUser) => {
+    try {
+      const profile = await loadUserProfile(authUser, { fresh: true });
+      setUser(profile);
+      if (!isAdmin(profile)) return;
+
+      if (!id) {
+        setDraft(createBlankQuestion());
+        return;
+      }
+      const [question, versions] = await Promise.all([
+        questionsRepository.get(id, { fresh: true }),
+        loadVersionHistory(id)
+      ]);
+      if (!question) {
+        Alert.alert('Not Found', 'This question no longer exists.');
+        router.back();
+        return;
+      }
+      setPrevious(question);
+      setDraft(question);
+      setHistory(versions);
+    } catch (error) {
+      console.error('Error loading question:', error);
+      Alert.alert('Error', 'Failed to load the question. Please try again.');
+    }
+  };
+
+  const updateDraft = (changes: Partial<Question>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+    setPreviewResponse(null);
+  };
+
+  const save = async (question: Question) => {
+    if (!user) return;
+    try {
+      setSaving(true);
+      await saveQuestion(question, previous, user.id);
+      router.back();
+    } catch (error) {
+      console.error('Error saving question:', error);
+      Alert.alert('Error', 'Failed to save the question. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>{id ? 'Edit Question' : 'New Question'}</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#2563EB" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!isAdmin(user) || !draft) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Only admins can edit questions.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const type = getQuestionType(draft);
+  const cleaned = cleanDraft(draft);
+  const messages = validateQuestionDraft(cleaned);
+  const changes = changedFields(previous, cleaned);
+  const changesGrading = !!previous && changes.some(field => GRADING_FIELDS.includes(field));
+  const canSave = messages.length === 0 && changes.length > 0 && !saving;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <Text style={styles.fieldLabel}>Type</Text>
+          <View style={styles.chipRow}>
+            {QUESTION_TYPES.map(option => (
+              <Chip
+                key={option}
+                label={QUESTION_TYPE_LABELS[option]}
+                selected={type === option}
+                onPress={() => updateDraft({ questionType: option })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Question</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.questionText}
+            onChangeText={questionText => updateDraft({ questionText })}
+            placeholder="What should the project manager do next?"
+            placeholderTextColor="#94A3B8"
+            multiline
+          />
+
+          {(type === 'single' || type === 'multiple') && ANSWER_KEYS.map(key => (
+            <View key={key}>
+              <Text style={styles.fieldLabel}>Option {key}</Text>
+              <TextInput
+                style={styles.input}
+                value={draft[`option${key}`]}
+                onChangeText={value => updateDraft({ [`option${key}`]: value })}
+                multiline
+              />
+            </View>
+          ))}
+
+          {PAYLOAD_HINTS[type] && (
+            <>
+              <Text style={styles.fieldLabel}>Payload (JSON)</Text>
+              <Text style={styles.hintText}>{PAYLOAD_HINTS[type]}</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput, styles.codeInput]}
+                value={draft.payload ?? ''}
+                onChangeText={payload => updateDraft({ payload })}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+            </>
+          )}
+
+          <Text style={styles.fieldLabel}>Correct answer</Text>
+          <Text style={styles.hintText}>{ANSWER_HINTS[type]}</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.correctAnswer}
+            onChangeText={correctAnswer => updateDraft({ correctAnswer })}
+            autoCapitalize={type === 'single' || type === 'multiple' ? 'characters' : 'none'}
+            autoCorrect={false}
+          />
+
+          <Text style={styles.fieldLabel}>Explanation</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.explanation}
+            onChangeText={explanation => updateDraft({ explanation })}
+            multiline
+          />
+
+          {(type === 'single' || type === 'multiple') && (
+            <>
+              <Text style={styles.fieldLabel}>Rationales (JSON)</Text>
+              <Text style={styles.hintText}>Optional: why each option is right or wrong, e.g. {'{"A": "...", "B": "..."}'}</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput, styles.codeInput]}
+                value={draft.rationales ?? ''}
+                onChangeText={rationales => updateDraft({ rationales })}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+            </>
+          )}
+
+          <Text style={styles.fieldLabel}>References (JSON)</Text>
+          <Text style={styles.hintText}>Optional: {'[{"source": "PMBOK Guide", "location": "p. 52"}]'}, or plain strings</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput, styles.codeInput]}
+            value={draft.references ?? ''}
+            onChangeText={references => updateDraft({ references })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+
+          <Text style={styles.fieldLabel}>Domain</Text>
+          <View style={styles.chipRow}>
+            {ECO_DOMAINS.map(domain => (
+              <Chip
+                key={domain}
+                label={domain}
+                selected={draft.category === domain}
+                onPress={() => updateDraft({ category: domain })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Knowledge area</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.knowledgeArea}
+            onChangeText={knowledgeArea => updateDraft({ knowledgeArea })}
+            placeholder="e.g. Manage Conflict"
+            placeholderTextColor="#94A3B8"
+          />
+
+          <Text style={styles.fieldLabel}>Difficulty</Text>
+          <View style={styles.chipRow}>
+            {DIFFICULTIES.map(difficulty => (
+              <Chip
+                key={difficulty}
+                label={difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                selected={draft.difficulty === difficulty}
+                onPress={() => updateDraft({ difficulty })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.previewHeader}>
+          <Text style={styles.sectionTitle}>Preview</Text>
+          <TouchableOpacity onPress={() => setShowAnswer(!showAnswer)}>
+            <Text style={styles.linkText}>{showAnswer ? 'Hide answer' : 'Show answer'}</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.preview}>
+          <QuestionCard question={cleaned} />
+          <QuestionResponse
+            question={cleaned}
+            response={previewResponse}
+            onChange={setPreviewResponse}
+            showResult={showAnswer}
+          />
+          {showAnswer && <ExplanationPanel question={cleaned} selectedAnswer={previewResponse} />}
+        </View>
+
+        {messages.length > 0 && (
+          <View style={styles.messagesCard}>
+            {messages.map(message => (
+              <Text key={message} style={styles.messageText}>• {message}</Text>
+            ))}
+          </View>
+        )}
+
+        {changesGrading && (
+          <View style={styles.warningCard}>
+            <AlertTriangle size={18} color="#B45309" />
+            <Text style={styles.warningText}>
+              This changes how responses are graded. Past answers stay linked to the version they were
+              given against, so their review and stats are unaffected.
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, !canSave && styles.disabledButton]}
+          onPress={() => save(cleaned)}
+          disabled={!canSave}
+        >
+          <Text style={styles.primaryButtonText}>
+            {saving ? 'Saving...' : previous ? 'Save Changes' : 'Create Question'}
+          </Text>
+        </TouchableOpacity>
+
+        {previous && (isRetired(previous) ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => save({ ...previous, retired: 0 })} disabled={saving}>
+            <Text style={styles.secondaryButtonText}>Return to Circulation</Text>
+          </TouchableOpacity>
+        ) : confirmRetire ? (
+          <TouchableOpacity style={styles.dangerButton} onPress={() => save({ ...previous, retired: 1 })} disabled={saving}>
+            <Text style={styles.primaryButtonText}>Confirm Retire (discards unsaved edits)</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setConfirmRetire(true)} disabled={saving}>
+            <Text style={styles.dangerText}>Retire Question</Text>
+          </TouchableOpacity>
+        ))}
+
+        {previous && (
+          <View style={styles.card}>
+            <View style={styles.historyTitleRow}>
+              <History size={18} color="#64748B" />
+              <Text style={styles.sectionTitle}>Version History</Text>
+            </View>
+            {history.length === 0 && (
+              <Text style={styles.hintText}>No edits recorded yet. The first save keeps a copy of the current version.</Text>
+            )}
+            {history.map((version, index) => {
+              const snapshot = parseSnapshot(version);
+              const fields = listChangedFields(version);
+              const expanded = expandedVersionId === version.id;
+              return (
+                <TouchableOpacity
+                  key={version.id}
+                  style={styles.versionRow}
+                  onPress={() => setExpandedVersionId(expanded ? null : version.id)}
+                >
+                  <View style={styles.versionHeader}>
+                    <Text style={styles.versionTitle}>Version {history.length - index}</Text>
+                    <Text style={styles.metaText}>{new Date(version.createdAt).toLocaleString()}</Text>
+                  </View>
+                  <Text style={styles.metaText}>
+                    {version.editedBy
+                      ? `Changed ${fields.map(field => FIELD_LABELS[field] ?? field).join(', ')}`
+                      : 'Original, before the first edit'}
+                  </Text>
+                  {affectsGrading(version) && <Text style={styles.gradingTag}>Answer key changed</Text>}
+                  {expanded && snapshot && (
+                    <View style={styles.snapshot}>
+                      <Text style={styles.bodyText}>{snapshot.questionText}</Text>
+                      <Text style={styles.metaText}>Correct answer: {snapshot.correctAnswer}</Text>
+                      <TouchableOpacity
+                        onPress={() => {
+                          updateDraft({ ...snapshot, id: draft.id, retired: draft.retired, versionId: draft.versionId });
+                          setExpandedVersionId(null);
+                        }}
+                      >
+                        <Text style={styles.linkText}>Load into editor</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingVertical: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: '#1E293B',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  codeInput: {
+    fontFamily: 'monospace',
+    fontSize: 13,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  preview: {
+    marginBottom: 16,
+  },
+  messagesCard: {
+    backgroundColor: '#FEF2F2',
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 20,
+    marginBottom: 12,
+  },
+  messageText: {
+    fontSize: 13,
+    color: '#B91C1C',
+    lineHeight: 20,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#FFFBEB',
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 20,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400E',
+    lineHeight: 18,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 12,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: 'white',
+  },
+  secondaryButtonText: {
+    color: '#475569',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#DC2626',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  dangerText: {
+    color: '#DC2626',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historyTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  versionRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  versionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  gradingTag: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+    backgroundColor: '#FFFBEB',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  snapshot: {
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F8FAFC',
+    gap: 6,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,892 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, ArrowRight, Clock, Coffee, FileText, Flag, LayoutGrid } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { blink } from '@/lib/blink';
+import { Question, shuffle } from '@/lib/questions';
+import { gradeAnswerSheet } from '@/lib/answers';
+import { queueStudySession, queueUpserts } from '@/lib/outbox';
+import { createId } from '@/lib/sessions';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { recordReviews } from '@/lib/spacedRepetition';
+import { loadPreferences } from '@/lib/preferences';
+import { selectionFeedback } from '@/lib/haptics';
+import { MOCK_EXAM, getExamSections, formatClock } from '@/lib/mockExam';
+import { useAnswerSheet } from '@/hooks/useAnswerSheet';
+import { useQuestionTimer } from '@/hooks/useQuestionTimer';
+import { QuestionCard } from '@/components/QuestionCard';
+import { QuestionResponse } from '@/components/QuestionResponse';
+import { QuestionNavigator } from '@/components/QuestionNavigator';
+import { RuleSection } from '@/components/RuleSection';
+
+type ExamPhase = 'intro' | 'inProgress' | 'break' | 'complete';
+
+interface CategoryResult {
+  category: string;
+  correct: number;
+  total: number;
+}
+
+interface ExamResult {
+  sessionId: string;
+  correct: number;
+  total: number;
+  answered: number;
+  durationSeconds: number;
+  byCategory: CategoryResult[];
+}
+
+const EXAM_DURATION_MS = MOCK_EXAM.durationMinutes * 60 * 1000;
+const BREAK_DURATION_MS = MOCK_EXAM.breakMinutes * 60 * 1000;
+
+export default function MockExam() {
+  const [user, setUser] = useState<any>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [atCheckpoint, setAtCheckpoint] = useState(false);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const [showNavigator, setShowNavigator] = useState(false);
+  const [phase, setPhase] = useState<ExamPhase>('intro');
+  const [remainingMs, setRemainingMs] = useState(EXAM_DURATION_MS);
+  const [breakRemainingMs, setBreakRemainingMs] = useState(BREAK_DURATION_MS);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<ExamResult | null>(null);
+  const [haptics, setHaptics] = useState(false);
+
+  const deadlineRef = useRef(0);
+  const breakDeadlineRef = useRef(0);
+  const pausedRemainingRef = useRef(EXAM_DURATION_MS);
+  const startedAtRef = useRef(0);
+  const breakTimeRef = useRef(0);
+  const submitRef = useRef<() => void>(() => {});
+  const answerSheet = useAnswerSheet();
+  const questionTimer = useQuestionTimer(
+    phase === 'inProgress' && !atCheckpoint ? questions[currentIndex]?.id ?? null : null
+  );
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        setUser(state.user);
+        loadPreferences(state.user.id)
+          .then(preferences => setHaptics(preferences.haptics))
+          .catch(error => console.error('Error loading preferences:', error));
+        await loadQuestions();
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Exam clock only runs while questions are on screen; breaks pause it
+  useEffect(() => {
+    if (phase !== 'inProgress') return;
+    const interval = setInterval(() => {
+      const remaining = deadlineRef.current - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) {
+        clearInterval(interval);
+        submitRef.current();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase !== 'break') return;
+    const interval = setInterval(() => {
+      const remaining = breakDeadlineRef.current - Date.now();
+      setBreakRemainingMs(remaining);
+      if (remaining <= 0) {
+        clearInterval(interval);
+        endBreak();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const loadQuestions = async () => {
+    try {
+      setLoading(true);
+      const result = await loadQuestionBank();
+
+      if (result && result.length > 0) {
+        setQuestions(shuffle<Question>(result).slice(0, MOCK_EXAM.questionCount));
+      } else {
+        Alert.alert('Error', 'No questions available. Please try again later.');
+      }
+    } catch (error) {
+      console.error('Error loading exam questions:', error);
+      Alert.alert('Error', 'Failed to load questions. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sections = getExamSections(questions.length);
+  const section = sections[sectionIndex] ?? { start: 0, end: questions.length };
+  const isLastSection = sectionIndex === sections.length - 1;
+
+  const startExam = () => {
+    startedAtRef.current = Date.now();
+    deadlineRef.current = Date.now() + EXAM_DURATION_MS;
+    setRemainingMs(EXAM_DURATION_MS);
+    setPhase('inProgress');
+  };
+
+  const handleAnswerSelect = (answer: string) => {
+    selectionFeedback(haptics);
+    answerSheet.select(questions[currentIndex].id, answer);
+    setConfirmSubmit(false);
+  };
+
+  const goToQuestion = (index: number) => {
+    setCurrentIndex(index);
+    setAtCheckpoint(false);
+    setShowNavigator(false);
+    setConfirmSubmit(false);
+  };
+
+  const goToPrevious = () => {
+    setConfirmSubmit(false);
+    if (atCheckpoint) {
+      setAtCheckpoint(false);
+      return;
+    }
+    if (currentIndex > section.start) {
+      setCurrentIndex(prev => prev - 1);
+    }
+  };
+
+  const goToNext = () => {
+    if (currentIndex < section.end - 1) {
+      setCurrentIndex(prev => prev + 1);
+    } else if (!isLastSection) {
+      setAtCheckpoint(true);
+    }
+  };
+
+  // Like the real exam, finishing a section locks its questions
+  const advanceSection = () => {
+    const next = sections[sectionIndex + 1];
+    setSectionIndex(prev => prev + 1);
+    setCurrentIndex(next.start);
+    setAtCheckpoint(false);
+    setShowNavigator(false);
+  };
+
+  const startBreak = () => {
+    pausedRemainingRef.current = deadlineRef.current - Date.now();
+    breakDeadlineRef.current = Date.now() + BREAK_DURATION_MS;
+    breakTimeRef.current = Date.now();
+    setBreakRemainingMs(BREAK_DURATION_MS);
+    advanceSection();
+    setPhase('break');
+  };
+
+  const endBreak = () => {
+    deadlineRef.current = Date.now() + pausedRemainingRef.current;
+    startedAtRef.current += Date.now() - breakTimeRef.current;
+    setRemainingMs(pausedRemainingRef.current);
+    setPhase('inProgress');
+  };
+
+  const submitExam = async () => {
+    if (!user || submitting) return;
+    setSubmitting(true);
+
+    const categoryMap = new Map<string, CategoryResult>();
+    const sessionId = createId('session');
+    const answerRows = gradeAnswerSheet(
+      user.id,
+      sessionId,
+      questions,
+      answerSheet.entries,
+      answerSheet.flagged,
+      questionTimer.getTimings()
+    );
+    const correctIds = new Set(answerRows.filter(row => row.isCorrect === 1).map(row => row.questionId));
+    const correct = correctIds.size;
+
+    // Unanswered questions are scored as incorrect, same as the real exam
+    questions.forEach(question => {
+      const current = categoryMap.get(question.category) || { category: question.category, correct: 0, total: 0 };
+      categoryMap.set(question.category, {
+        ...current,
+        total: current.total + 1,
+        correct: current.correct + (correctIds.has(question.id) ? 1 : 0)
+      });
+    });
+
+    const durationSeconds = Math.round((Date.now() - startedAtRef.current) / 1000);
+
+    try {
+      if (answerRows.length > 0) {
+        await queueUpserts('userAnswers', answerRows);
+        await recordReviews(user.id, answerRows.map(row => ({
+          questionId: row.questionId,
+          isCorrect: row.isCorrect === 1
+        })));
+      }
+
+      await queueStudySession(sessionId, user, {
+        sessionType: 'mock_exam',
+        questionsAnswered: answerRows.length,
+        correctAnswers: correct,
+        sessionDuration: durationSeconds,
+        questionIds: questions.map(question => question.id),
+        flaggedQuestionIds: questions.map(question => question.id).filter(id => answerSheet.flagged[id])
+      });
+
+      setResult({
+        sessionId,
+        correct,
+        total: questions.length,
+        answered: answerRows.length,
+        durationSeconds,
+        byCategory: Array.from(categoryMap.values()).sort((a, b) => b.total - a.total)
+      });
+      setPhase('complete');
+    } catch (error) {
+      console.error('Error submitting exam:', error);
+      Alert.alert('Error', 'Failed to save your exam. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  submitRef.current = submitExam;
+
+  const handleSubmitPress = () => {
+    if (!confirmSubmit) {
+      setConfirmSubmit(true);
+      return;
+    }
+    submitExam();
+  };
+
+  const getScoreColors = (percentage: number): [string, string] => {
+    if (percentage >= 80) return ['#10B981', '#059669'];
+    if (percentage >= 60) return ['#F59E0B', '#D97706'];
+    return ['#EF4444', '#DC2626'];
+  };
+
+  const header = (title: string, right?: React.ReactNode) => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>{title}</Text>
+      <View style={styles.headerRight}>{right}</View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563EB" />
+          <Text style={styles.loadingText}>Preparing your exam...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header('Mock Exam')}
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>No questions available</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadQuestions}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (phase === 'intro') {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header('Mock Exam')}
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.introContainer}>
+          <LinearGradient colors={['#2563EB', '#3B82F6']} style={styles.introCard}>
+            <FileText size={40} color="white" />
+            <Text style={styles.introTitle}>Full-Length PMP Simulation</Text>
+            <Text style={styles.introSubtitle}>
+              {questions.length} questions · {MOCK_EXAM.durationMinutes} minutes
+            </Text>
+          </LinearGradient>
+
+          <RuleSection
+            title="Exam Rules"
+            rules={[
+              `You have ${MOCK_EXAM.durationMinutes} minutes to answer ${questions.length} questions.`,
+              `After questions ${MOCK_EXAM.breakAfter.join(' and ')} you may take an optional ${MOCK_EXAM.breakMinutes}-minute break. The exam clock is paused during breaks.`,
+              'Once you finish a section you cannot return to its questions.',
+              'No answer feedback is shown until the exam is submitted.',
+              'Unanswered questions are scored as incorrect. The exam submits automatically when time runs out.'
+            ]}
+          />
+
+          <TouchableOpacity style={styles.primaryButton} onPress={startExam}>
+            <Clock size={20} color="white" />
+            <Text style={styles.primaryButtonText}>Start Exam</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  if (phase === 'break') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.breakContainer}>
+          <Coffee size={48} color="#2563EB" />
+          <Text style={styles.breakTitle}>Break Time</Text>
+          <Text style={styles.breakClock}>{formatClock(breakRemainingMs)}</Text>
+          <Text style={styles.breakText}>
+            Exam time remaining: {formatClock(pausedRemainingRef.current)}
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={endBreak}>
+            <Text style={styles.primaryButtonText}>Resume Exam</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (phase === 'complete' && result) {
+    const percentage = Math.round((result.correct / result.total) * 100);
+
+    return (
+      <SafeAreaView style={styles.container}>
+        {header('Exam Results')}
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.resultsContainer}>
+          <LinearGradient colors={getScoreColors(percentage)} style={styles.resultCard}>
+            <Text style={styles.resultTitle}>Mock Exam Complete</Text>
+            <Text style={styles.resultScore}>{result.correct}/{result.total}</Text>
+            <Text style={styles.resultPercentage}>{percentage}% Correct</Text>
+            <Text style={styles.resultMessage}>
+              {result.answered} answered · {formatClock(result.durationSeconds * 1000)} used
+            </Text>
+          </LinearGradient>
+
+          <View style={styles.breakdownCard}>
+            <Text style={styles.breakdownTitle}>Results by Category</Text>
+            {result.byCategory.map(category => {
+              const accuracy = Math.round((category.correct / category.total) * 100);
+              return (
+                <View key={category.category} style={styles.breakdownRow}>
+                  <Text style={styles.breakdownName}>{category.category}</Text>
+                  <Text style={styles.breakdownValue}>
+                    {category.correct}/{category.total} ({accuracy}%)
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.push({ pathname: '/review', params: { sessionId: result.sessionId } })}
+          >
+            <Text style={styles.secondaryButtonText}>Review Answers</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.back()}>
+            <Text style={styles.secondaryButtonText}>Back to Home</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  const currentQuestion = questions[currentIndex];
+  const answeredCount = Object.keys(answerSheet.entries).length;
+  const isFlagged = !!answerSheet.flagged[currentQuestion.id];
+  const unansweredCount = questions.length - answeredCount;
+  const isLastQuestion = currentIndex === section.end - 1;
+  const lowTime = remainingMs < 10 * 60 * 1000;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header(
+        `Section ${sectionIndex + 1} of ${sections.length}`,
+        <View style={[styles.timerBadge, lowTime && styles.timerBadgeWarning]}>
+          <Clock size={14} color={lowTime ? '#EF4444' : '#2563EB'} />
+          <Text style={[styles.timerText, lowTime && styles.timerTextWarning]}>
+            {formatClock(remainingMs)}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${((currentIndex + 1) / questions.length) * 100}%` }]} />
+        </View>
+        <Text style={styles.progressText}>
+          Question {currentIndex + 1} of {questions.length} · {answeredCount} answered
+        </Text>
+        {!atCheckpoint && (
+          <View style={styles.toolbar}>
+            <TouchableOpacity
+              style={[styles.toolbarButton, isFlagged && styles.toolbarButtonActive]}
+              onPress={() => answerSheet.toggleFlag(currentQuestion.id)}
+            >
+              <Flag size={16} color="#F59E0B" fill={isFlagged ? '#F59E0B' : 'transparent'} />
+              <Text style={styles.toolbarButtonText}>{isFlagged ? 'Flagged' : 'Flag for review'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.toolbarButton} onPress={() => setShowNavigator(prev => !prev)}>
+              <LayoutGrid size={16} color="#2563EB" />
+              <Text style={styles.toolbarButtonText}>Questions</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {atCheckpoint ? (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.checkpointContainer}>
+          <Coffee size={40} color="#2563EB" />
+          <Text style={styles.checkpointTitle}>Section {sectionIndex + 1} complete</Text>
+          <View style={styles.checkpointNavigator}>
+            <QuestionNavigator
+              questionIds={questions.map(question => question.id)}
+              currentIndex={currentIndex}
+              answered={answerSheet.entries}
+              flagged={answerSheet.flagged}
+              onSelect={goToQuestion}
+              enabledRange={section}
+            />
+          </View>
+          <Text style={styles.checkpointText}>
+            You can take an optional {MOCK_EXAM.breakMinutes}-minute break now. After continuing,
+            you won't be able to return to questions {section.start + 1}–{section.end}.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={startBreak}>
+            <Coffee size={20} color="white" />
+            <Text style={styles.primaryButtonText}>Take a Break</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={advanceSection}>
+            <Text style={styles.secondaryButtonText}>Continue Without Break</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={goToPrevious}>
+            <Text style={styles.linkButtonText}>Review this section</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {showNavigator && (
+            <View style={styles.navigatorContainer}>
+              <QuestionNavigator
+                questionIds={questions.map(question => question.id)}
+                currentIndex={currentIndex}
+                answered={answerSheet.entries}
+                flagged={answerSheet.flagged}
+                onSelect={goToQuestion}
+                enabledRange={section}
+              />
+            </View>
+          )}
+
+          <QuestionCard question={currentQuestion} />
+
+          <QuestionResponse
+            question={currentQuestion}
+            response={answerSheet.entries[currentQuestion.id]?.selectedAnswer ?? null}
+            onChange={handleAnswerSelect}
+          />
+
+          {confirmSubmit && (
+            <View style={styles.warningCard}>
+              <Text style={styles.warningText}>
+                {unansweredCount > 0
+                  ? `You have ${unansweredCount} unanswered ${unansweredCount === 1 ? 'question' : 'questions'}. Tap Submit Exam again to finish.`
+                  : 'Tap Submit Exam again to finish.'}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.navigation}>
+            <TouchableOpacity
+              style={[styles.navButton, currentIndex === section.start && styles.disabledButton]}
+              onPress={goToPrevious}
+              disabled={currentIndex === section.start}
+            >
+              <ArrowLeft size={20} color="white" />
+              <Text style={styles.navButtonText}>Previous</Text>
+            </TouchableOpacity>
+
+            {isLastQuestion && isLastSection ? (
+              <TouchableOpacity
+                style={[styles.submitButton, submitting && styles.disabledButton]}
+                onPress={handleSubmitPress}
+                disabled={submitting}
+              >
+                <Text style={styles.navButtonText}>{submitting ? 'Submitting...' : 'Submit Exam'}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.navButton} onPress={goToNext}>
+                <Text style={styles.navButtonText}>{isLastQuestion ? 'End Section' : 'Next'}</Text>
+                <ArrowRight size={20} color="white" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    minWidth: 32,
+  },
+  timerBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EEF2FF',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  timerBadgeWarning: {
+    backgroundColor: '#FEF2F2',
+  },
+  timerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  timerTextWarning: {
+    color: '#EF4444',
+  },
+  progressContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'white',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#E2E8F0',
+    borderRadius: 2,
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+    borderRadius: 2,
+  },
+  progressText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    gap: 6,
+  },
+  toolbarButtonActive: {
+    backgroundColor: '#FFFBEB',
+  },
+  toolbarButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  navigatorContainer: {
+    marginTop: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748B',
+    marginTop: 12,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#64748B',
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  introContainer: {
+    paddingVertical: 20,
+  },
+  introCard: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 24,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  introTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: 'white',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  introSubtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: 6,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    alignSelf: 'stretch',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    alignSelf: 'stretch',
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    padding: 12,
+  },
+  linkButtonText: {
+    color: '#64748B',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  breakContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  breakTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginTop: 16,
+  },
+  breakClock: {
+    fontSize: 48,
+    fontWeight: '800',
+    color: '#2563EB',
+    marginVertical: 12,
+  },
+  breakText: {
+    fontSize: 16,
+    color: '#64748B',
+    marginBottom: 24,
+  },
+  checkpointContainer: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  checkpointNavigator: {
+    alignSelf: 'stretch',
+    marginHorizontal: -20,
+    marginTop: 16,
+  },
+  checkpointTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E293B',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  checkpointText: {
+    fontSize: 15,
+    color: '#475569',
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  warningCard: {
+    marginHorizontal: 20,
+    backgroundColor: '#FFFBEB',
+    padding: 16,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#F59E0B',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#92400E',
+    lineHeight: 20,
+  },
+  navigation: {
+    flexDirection: 'row',
+    padding: 20,
+    gap: 12,
+  },
+  navButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 6,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#10B981',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  navButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resultsContainer: {
+    padding: 20,
+  },
+  resultCard: {
+    padding: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  resultTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: 'white',
+    marginBottom: 16,
+  },
+  resultScore: {
+    fontSize: 48,
+    fontWeight: '800',
+    color: 'white',
+    marginBottom: 8,
+  },
+  resultPercentage: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 16,
+  },
+  resultMessage: {
+    fontSize: 16,
+    color: 'white',
+    textAlign: 'center',
+    opacity: 0.9,
+  },
+  breakdownCard: {
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  breakdownTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  breakdownName: {
+    fontSize: 15,
+    color: '#1E293B',
+    flex: 1,
+  },
+  breakdownValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#475569',
+  },
+});
@@ -1,85 +1,89 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Flame, BookOpen, Target, TrendingUp, Award } from 'lucide-react-native';
+import { Flame, BookOpen, Target, TrendingUp, Award, Clock, Crosshair, Database, Settings } from 'lucide-react-native';
 import { blink } from '@/lib/blink';
-
-interface User {
-  id: string;
-  email: string;
-  displayName: string;
-  currentStreak: number;
-  longestStreak: number;
-  lastStudyDate: string;
-  totalQuestionsAnswered: number;
-  correctAnswers: number;
-}
+import { AuthUser, loadUserProfile, sessionsRepository } from '@/lib/repository';
+import { StudySession, User } from '@/lib/schema';
+import { getStreakStatus, localDateKey } from '@/lib/streak';
+import { listPendingSessions } from '@/lib/outbox';
+import { syncReminders } from '@/lib/reminders';
+import { Preferences, daysUntilExam, describeExamCountdown, loadPreferences } from '@/lib/preferences';
+import { StudyPlan, loadStudyPlan } from '@/lib/studyPlan';
+import { StudyPlanCard } from '@/components/StudyPlanCard';
+import { DailyProgress, describeDailyGoal, getDailyGoal, getGoalCompletion, summarizeDay } from '@/lib/dailyGoal';
+import { isAdmin } from '@/lib/moderation';
+import { loadCategoryStats, overallAccuracy } from '@/lib/answerAggregates';
 
 export default function Home() {
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null);
+  const [accuracyRate, setAccuracyRate] = useState(0);
+  const [todayProgress, setTodayProgress] = useState<DailyProgress>({ questions: 0, seconds: 0 });
   const [loading, setLoading] = useState(true);
-  const [todayStudied, setTodayStudied] = useState(false);
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
       if (state.user) {
-        await loadUserData(state.user.id);
+        setAuthUser(state.user);
+        await loadUserData(state.user);
+        await loadTodayProgress(state.user.id);
       }
       setLoading(state.isLoading);
     });
     return unsubscribe;
   }, []);
 
-  const loadUserData = async (userId: string) => {
-    try {
-      const authUser = await blink.auth.me();
-      
-      // Try to get user data from database
-      const existingUsers = await blink.db.users.list({
-        where: { id: userId },
-        limit: 1
-      });
+  // Coming back from a session or from settings changes the streak and goal
+  useFocusEffect(useCallback(() => {
+    if (!authUser) return;
+    loadUserData(authUser);
+    loadTodayProgress(authUser.id);
+  }, [authUser]));
 
-      let userData;
-      if (existingUsers.length > 0) {
-        const dbUser = existingUsers[0];
-        userData = {
-          id: userId,
-          email: authUser.email,
-          displayName: dbUser.displayName || authUser.displayName || authUser.email.split('@')[0],
-          currentStreak: dbUser.currentStreak || 0,
-          longestStreak: dbUser.longestStreak || 0,
-          lastStudyDate: dbUser.lastStudyDate || '',
-          totalQuestionsAnswered: dbUser.totalQuestionsAnswered || 0,
-          correctAnswers: dbUser.correctAnswers || 0
-        };
-      } else {
-        // Create default user data for new users
-        userData = {
-          id: userId,
-          email: authUser.email,
-          displayName: authUser.displayName || authUser.email.split('@')[0],
-          currentStreak: 0,
-          longestStreak: 0,
-          lastStudyDate: '',
-          totalQuestionsAnswered: 0,
-          correctAnswers: 0
-        };
-      }
-
-      setUser(userData);
-      
-      // Check if user studied today
-      const today = new Date().toISOString().split('T')[0];
-      setTodayStudied(userData.lastStudyDate === today);
+  const loadUserData = async (authUser: AuthUser) => {
+    try {
+      const [profile, loadedPreferences] = await Promise.all([
+        loadUserProfile(authUser),
+        loadPreferences(authUser.id)
+      ]);
+      setUser(profile);
+      setPreferences(loadedPreferences);
+      // Re-plan reminders now that we know whether today is already done
+      syncReminders(profile, loadedPreferences.reminders).catch(error => console.error('Error scheduling reminders:', error));
+      // Rebuilt on every visit so it tracks accuracy and missed days
+      loadStudyPlan(authUser.id, loadedPreferences)
+        .then(setStudyPlan)
+        .catch(error => console.error('Error loading study plan:', error));
+      loadCategoryStats(authUser.id)
+        .then(stats => setAccuracyRate(overallAccuracy(stats)))
+        .catch(error => console.error('Error loading accuracy:', error));
     } catch (error) {
       console.error('Error loading user data:', error);
       Alert.alert('Error', 'Failed to load user data');
     }
   };
 
+  // Today's synced sessions plus any still waiting in the outbox
+  const loadTodayProgress = async (userId: string) => {
+    const today = localDateKey();
+    const pending = (await listPendingSessions())
+      .filter(session => session.userId === userId && session.sessionDate === today);
+    let synced: StudySession[] = [];
+    try {
+      synced = await sessionsRepository.list({ where: { userId, sessionDate: today } });
+    } catch (error) {
+      console.error('Error loading today\'s sessions:', error);
+    }
+
+    const byId = new Map([...synced, ...pending].map(session => [session.id, session]));
+    setTodayProgress(summarizeDay(Array.from(byId.values())));
+  };
+
   const getStreakColor = (streak: number) => {
     if (streak >= 30) return '#FF6B35'; // Fire red
     if (streak >= 14) return '#FF8C42'; // Orange
@@ -90,14 +94,17 @@ export default function Home() {
 
   const getMotivationalMessage = () => {
     if (!user) return '';
+    const { currentStreak, atRisk } = getStreakStatus(user);
     
-    if (user.currentStreak === 0) {
+    if (atRisk) {
+      return "Study today — a streak freeze is covering for you! ❄️";
+    } else if (currentStreak === 0) {
       return "Start your PMP journey today! 🚀";
-    } else if (user.currentStreak < 3) {
+    } else if (currentStreak < 3) {
       return "Great start! Keep building that streak! 💪";
-    } else if (user.currentStreak < 7) {
+    } else if (currentStreak < 7) {
       return "You're on fire! Don't break the chain! 🔥";
-    } else if (user.currentStreak < 14) {
+    } else if (currentStreak < 14) {
       return "Incredible dedication! You're unstoppable! ⭐";
     } else {
       return "PMP Master in the making! 🏆";
@@ -124,17 +131,24 @@ export default function Home() {
     );
   }
 
-  const accuracyRate = user.totalQuestionsAnswered > 0 
-    ? Math.round((user.correctAnswers / user.totalQuestionsAnswered) * 100) 
-    : 0;
+  const { currentStreak, studiedToday } = getStreakStatus(user);
+  const dailyGoal = getDailyGoal(user);
+  const goalCompletion = getGoalCompletion(dailyGoal, todayProgress);
+  const examCountdown = preferences && describeExamCountdown(daysUntilExam(preferences));
 
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Header */}
         <View style={styles.header}>
-          <Text style={styles.welcomeText}>Welcome back,</Text>
-          <Text style={styles.nameText}>{user.displayName}!</Text>
+          <View>
+            <Text style={styles.welcomeText}>Welcome back,</Text>
+            <Text style={styles.nameText}>{user.displayName}!</Text>
+            {examCountdown && <Text style={styles.examCountdown}>{examCountdown}</Text>}
+          </View>
+          <TouchableOpacity style={styles.settingsButton} onPress={() => router.push('/settings')}>
+            <Settings size={24} color="#64748B" />
+          </TouchableOpacity>
         </View>
 
         {/* Streak Card */}
@@ -145,20 +159,21 @@ export default function Home() {
           <View style={styles.streakHeader}>
             <Flame 
               size={32} 
-              color={getStreakColor(user.currentStreak)} 
-              fill={user.currentStreak > 0 ? getStreakColor(user.currentStreak) : 'transparent'}
+              color={getStreakColor(currentStreak)} 
+              fill={currentStreak > 0 ? getStreakColor(currentStreak) : 'transparent'}
             />
             <Text style={styles.streakTitle}>Study Streak</Text>
           </View>
           
-          <Text style={styles.streakNumber}>{user.currentStreak}</Text>
+          <Text style={styles.streakNumber}>{currentStreak}</Text>
           <Text style={styles.streakSubtext}>
-            {user.currentStreak === 1 ? 'day' : 'days'} in a row
+            {currentStreak === 1 ? 'day' : 'days'} in a row
           </Text>
           
           {user.longestStreak > 0 && (
             <Text style={styles.longestStreak}>
               Best: {user.longestStreak} {user.longestStreak === 1 ? 'day' : 'days'}
+              {user.streakFreezes > 0 && ` · ❄️ ${user.streakFreezes} ${user.streakFreezes === 1 ? 'freeze' : 'freezes'}`}
             </Text>
           )}
           
@@ -189,15 +204,31 @@ export default function Home() {
         {/* Action Buttons */}
         <View style={styles.actionContainer}>
           <TouchableOpacity 
-            style={[styles.primaryButton, todayStudied && styles.completedButton]}
-            onPress={() => router.push('/practice')}
+            style={[styles.primaryButton, studiedToday && styles.completedButton]}
+            onPress={() => router.push('/setup')}
           >
             <BookOpen size={24} color="white" />
             <Text style={styles.primaryButtonText}>
-              {todayStudied ? 'Continue Practice' : 'Start Daily Practice'}
+              {studiedToday ? 'Continue Practice' : 'Start Daily Practice'}
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity 
+            style={styles.outlineButton}
+            onPress={() => router.push('/drill')}
+          >
+            <Crosshair size={20} color="#2563EB" />
+            <Text style={styles.outlineButtonText}>Drill My Weak Spots</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.outlineButton}
+            onPress={() => router.push('/exam')}
+          >
+            <Clock size={20} color="#2563EB" />
+            <Text style={styles.outlineButtonText}>Full Mock Exam (180 Qs · 230 min)</Text>
+          </TouchableOpacity>
+
           <View style={styles.secondaryButtons}>
             <TouchableOpacity 
               style={styles.secondaryButton}
@@ -214,26 +245,57 @@ export default function Home() {
               <Flame size={20} color="#F59E0B" />
               <Text style={styles.secondaryButtonText}>Streaks</Text>
             </TouchableOpacity>
+
+            {isAdmin(user) && (
+              <TouchableOpacity 
+                style={styles.secondaryButton}
+                onPress={() => router.push('/bank')}
+              >
+                <Database size={20} color="#64748B" />
+                <Text style={styles.secondaryButtonText}>Questions</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
+        {/* Study Plan */}
+        {studyPlan ? (
+          <StudyPlanCard plan={studyPlan} onEdit={() => router.push('/settings')} />
+        ) : preferences && (!preferences.examDate || !preferences.weeklyHours) ? (
+          <TouchableOpacity style={styles.goalCard} onPress={() => router.push('/settings')}>
+            <Text style={styles.goalTitle}>Study Plan</Text>
+            <Text style={styles.goalDescription}>
+              Add your exam date and weekly study hours to get a week-by-week plan up to exam day.
+            </Text>
+            <Text style={styles.goalLink}>Set up my plan</Text>
+          </TouchableOpacity>
+        ) : null}
+
         {/* Daily Goal */}
         <View style={styles.goalCard}>
           <Text style={styles.goalTitle}>Daily Goal</Text>
           <Text style={styles.goalDescription}>
-            Answer 5 questions to maintain your streak
+            {describeDailyGoal(dailyGoal)} to extend your streak
           </Text>
           <View style={styles.progressBar}>
             <View 
               style={[
                 styles.progressFill, 
-                { width: `${Math.min((user.totalQuestionsAnswered % 5) * 20, 100)}%` }
+                { width: `${Math.round(goalCompletion * 100)}%` },
+                goalCompletion >= 1 && styles.progressComplete
               ]} 
             />
           </View>
           <Text style={styles.progressText}>
-            {user.totalQuestionsAnswered % 5}/5 questions today
+            {[
+              dailyGoal.questions > 0 && `${Math.min(todayProgress.questions, dailyGoal.questions)}/${dailyGoal.questions} questions`,
+              dailyGoal.minutes > 0 && `${Math.min(Math.floor(todayProgress.seconds / 60), dailyGoal.minutes)}/${dailyGoal.minutes} minutes`
+            ].filter(Boolean).join(' · ')} today
+            {goalCompletion >= 1 ? ' ✅' : ''}
           </Text>
+          <TouchableOpacity onPress={() => router.push('/settings')}>
+            <Text style={styles.goalLink}>Change goal</Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -269,9 +331,15 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
     padding: 20,
     paddingBottom: 10,
   },
+  settingsButton: {
+    padding: 8,
+  },
   welcomeText: {
     fontSize: 16,
     color: '#64748B',
@@ -283,6 +351,12 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginTop: 4,
   },
+  examCountdown: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+    marginTop: 6,
+  },
   streakCard: {
     margin: 20,
     marginTop: 10,
@@ -374,6 +448,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  outlineButton: {
+    backgroundColor: 'white',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#2563EB',
+    marginBottom: 12,
+  },
+  outlineButtonText: {
+    color: '#2563EB',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   secondaryButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -432,9 +523,19 @@ const styles = StyleSheet.create({
     backgroundColor: '#2563EB',
     borderRadius: 4,
   },
+  progressComplete: {
+    backgroundColor: '#10B981',
+  },
   progressText: {
     fontSize: 14,
     color: '#64748B',
     textAlign: 'center',
   },
+  goalLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+    textAlign: 'center',
+    marginTop: 12,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,441 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, AlertTriangle, Clock, Users } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AuthUser, loadUserProfile } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { isAdmin } from '@/lib/moderation';
+import {
+  ITEM_FLAG_LABELS,
+  ItemStats,
+  MIN_RESPONSES,
+  applySuggestedDifficulties,
+  listDifficultyChanges,
+  loadItemAnalysis
+} from '@/lib/itemAnalysis';
+import { Chip } from '@/components/Chip';
+
+type ItemFilter = 'flagged' | 'all' | 'difficulty';
+
+const ITEM_FILTER_LABELS: Record<ItemFilter, string> = {
+  flagged: 'Flagged',
+  all: 'All',
+  difficulty: 'Difficulty changes',
+};
+
+const MAX_LISTED_ITEMS = 100;
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+// Rule of thumb: below 0.2 an item barely separates strong and weak learners
+const discriminationColor = (value: number | null) => {
+  if (value === null) return '#94A3B8';
+  if (value < 0) return '#EF4444';
+  if (value < 0.2) return '#F59E0B';
+  return '#10B981';
+};
+
+export default function ItemAnalysis() {
+  const [user, setUser] = useState<User | null>(null);
+  const [items, setItems] = useState<ItemStats[]>([]);
+  const [filter, setFilter] = useState<ItemFilter>('flagged');
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        await loadData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadData = async (authUser: AuthUser) => {
+    try {
+      setLoading(true);
+      const profile = await loadUserProfile(authUser, { fresh: true });
+      setUser(profile);
+      if (isAdmin(profile)) setItems(await loadItemAnalysis(profile));
+    } catch (error) {
+      console.error('Error loading item analysis:', error);
+      Alert.alert('Error', 'Failed to load item statistics. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyDifficulties = async (targets: ItemStats[]) => {
+    if (!user) return;
+    try {
+      setApplying(true);
+      const saved = await applySuggestedDifficulties(targets, user.id);
+      const savedById = new Map(saved.map(question => [question.id, question]));
+      setItems(prev => prev.map(item => {
+        const question = savedById.get(item.question.id);
+        return question ? { ...item, question } : item;
+      }));
+    } catch (error) {
+      console.error('Error updating difficulties:', error);
+      Alert.alert('Error', 'Failed to update difficulties. Please try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Item Analysis</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#2563EB" />
+          <Text style={styles.emptyText}>Crunching every learner's answers...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!isAdmin(user)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Only admins can see item statistics.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const flagged = items.filter(item => item.flags.length > 0);
+  const difficultyChanges = listDifficultyChanges(items);
+  const visible = filter === 'flagged' ? flagged : filter === 'difficulty' ? difficultyChanges : items;
+  const listed = visible.slice(0, MAX_LISTED_ITEMS);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryText}>
+            {items.length} questions · {flagged.length} flagged · {difficultyChanges.length} with a different
+            suggested difficulty
+          </Text>
+          <Text style={styles.hintText}>
+            Based on each learner's first attempt since the answer key last changed. Discrimination and
+            flags need at least {MIN_RESPONSES} responses.
+          </Text>
+          {difficultyChanges.length > 0 && (
+            <TouchableOpacity
+              style={[styles.primaryButton, applying && styles.disabledButton]}
+              onPress={() => applyDifficulties(difficultyChanges)}
+              disabled={applying}
+            >
+              <Text style={styles.primaryButtonText}>
+                {applying ? 'Updating...' : `Apply ${difficultyChanges.length} Suggested Difficulties`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.chipRow}>
+          {(Object.keys(ITEM_FILTER_LABELS) as ItemFilter[]).map(option => (
+            <Chip
+              key={option}
+              label={ITEM_FILTER_LABELS[option]}
+              selected={filter === option}
+              onPress={() => setFilter(option)}
+            />
+          ))}
+        </View>
+
+        {visible.length > listed.length && (
+          <Text style={styles.hintText}>Showing the first {listed.length} of {visible.length}</Text>
+        )}
+        {visible.length === 0 && <Text style={styles.emptyText}>Nothing here.</Text>}
+
+        {listed.map(item => {
+          const { question } = item;
+          const suggestionDiffers = !!item.suggestedDifficulty && item.suggestedDifficulty !== question.difficulty;
+          return (
+            <TouchableOpacity
+              key={question.id}
+              style={styles.itemCard}
+              onPress={() => router.push({ pathname: '/editor', params: { id: question.id } })}
+            >
+              <Text style={styles.questionText} numberOfLines={2}>{question.questionText}</Text>
+
+              {item.flags.length > 0 && (
+                <View style={styles.flagRow}>
+                  {item.flags.map(flag => (
+                    <View key={flag} style={styles.flagTag}>
+                      <AlertTriangle size={12} color="#B91C1C" />
+                      <Text style={styles.flagText}>{ITEM_FLAG_LABELS[flag]}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.metricsRow}>
+                <View style={styles.metric}>
+                  <Text style={styles.metricValue}>{formatPercent(item.pValue)}</Text>
+                  <Text style={styles.metricLabel}>p-value</Text>
+                </View>
+                <View style={styles.metric}>
+                  <Text style={[styles.metricValue, { color: discriminationColor(item.discrimination) }]}>
+                    {item.discrimination === null ? '—' : item.discrimination.toFixed(2)}
+                  </Text>
+                  <Text style={styles.metricLabel}>Discrimination</Text>
+                </View>
+                <View style={styles.metric}>
+                  <View style={styles.metricInline}>
+                    <Users size={14} color="#64748B" />
+                    <Text style={styles.metricValue}>{item.responses}</Text>
+                  </View>
+                  <Text style={styles.metricLabel}>Responses</Text>
+                </View>
+                <View style={styles.metric}>
+                  <View style={styles.metricInline}>
+                    <Clock size={14} color="#64748B" />
+                    <Text style={styles.metricValue}>{item.medianSeconds === null ? '—' : `${item.medianSeconds}s`}</Text>
+                  </View>
+                  <Text style={styles.metricLabel}>Median time</Text>
+                </View>
+              </View>
+
+              {item.distractors && item.responses > 0 && item.distractors.map(option => (
+                <View key={option.key} style={styles.distractorRow}>
+                  <Text style={[styles.distractorKey, option.isCorrect && styles.correctText]}>{option.key}</Text>
+                  <View style={styles.distractorBar}>
+                    <View
+                      style={[
+                        styles.distractorFill,
+                        { width: `${Math.round(option.share * 100)}%` },
+                        option.isCorrect && styles.correctFill
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.distractorShare}>{formatPercent(option.share)}</Text>
+                </View>
+              ))}
+
+              <View style={styles.difficultyRow}>
+                <Text style={styles.metricLabel}>
+                  Difficulty: {question.difficulty}
+                  {suggestionDiffers && ` → suggested ${item.suggestedDifficulty}`}
+                </Text>
+                {suggestionDiffers && (
+                  <TouchableOpacity onPress={() => applyDifficulties([item])} disabled={applying}>
+                    <Text style={styles.linkText}>Apply</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 12,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748B',
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  itemCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  questionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  flagTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FEF2F2',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  flagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B91C1C',
+  },
+  metricsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  metric: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  metricInline: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metricValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  metricLabel: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  distractorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  distractorKey: {
+    width: 16,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  correctText: {
+    color: '#10B981',
+  },
+  distractorBar: {
+    flex: 1,
+    height: 8,
+    backgroundColor: '#F1F5F9',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  distractorFill: {
+    height: '100%',
+    backgroundColor: '#94A3B8',
+  },
+  correctFill: {
+    backgroundColor: '#10B981',
+  },
+  distractorShare: {
+    width: 40,
+    fontSize: 12,
+    color: '#64748B',
+    textAlign: 'right',
+  },
+  difficultyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+});
@@ -0,0 +1,438 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, AlertTriangle } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AuthUser, loadUserProfile } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { formatResponse, validateQuestionShape } from '@/lib/questionTypes';
+import { isRetired } from '@/lib/questionBank';
+import {
+  QuestionEdit,
+  REPORT_REASON_LABELS,
+  ReportedQuestion,
+  dismissReports,
+  editReportedQuestion,
+  isAdmin,
+  loadModerationQueue,
+  retireReportedQuestion
+} from '@/lib/moderation';
+
+export default function Moderation() {
+  const [user, setUser] = useState<User | null>(null);
+  const [queue, setQueue] = useState<ReportedQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ questionId: string; draft: QuestionEdit } | null>(null);
+  const [confirmRetireId, setConfirmRetireId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        await loadData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadData = async (authUser: AuthUser) => {
+    try {
+      setLoading(true);
+      const profile = await loadUserProfile(authUser, { fresh: true });
+      setUser(profile);
+      if (isAdmin(profile)) setQueue(await loadModerationQueue());
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      Alert.alert('Error', 'Failed to load reports. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every action closes all of the question's open reports, so it leaves the queue
+  const runAction = async (item: ReportedQuestion, action: (adminId: string) => Promise<void>) => {
+    if (!user) return;
+    setBusyId(item.question.id);
+    try {
+      await action(user.id);
+      setQueue(prev => prev.filter(entry => entry.question.id !== item.question.id));
+      setEditing(null);
+      setConfirmRetireId(null);
+    } catch (error) {
+      console.error('Error moderating question:', error);
+      Alert.alert('Error', 'Failed to save your changes. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveEdit = (item: ReportedQuestion) => {
+    if (!editing) return;
+    const draft = {
+      questionText: editing.draft.questionText.trim(),
+      correctAnswer: editing.draft.correctAnswer.trim(),
+      explanation: editing.draft.explanation.trim()
+    };
+    const messages = validateQuestionShape({ ...item.question, ...draft });
+    if (!draft.questionText) messages.unshift('questionText is required');
+    if (messages.length > 0) {
+      Alert.alert('Check the question', messages.join('\n'));
+      return;
+    }
+    runAction(item, adminId => editReportedQuestion(item, draft, adminId));
+  };
+
+  const startEditing = ({ question }: ReportedQuestion) => {
+    setConfirmRetireId(null);
+    setEditing({
+      questionId: question.id,
+      draft: { questionText: question.questionText, correctAnswer: question.correctAnswer, explanation: question.explanation }
+    });
+  };
+
+  const updateDraft = (changes: Partial<QuestionEdit>) =>
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...changes } });
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Moderation</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#2563EB" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!isAdmin(user)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Only moderators can see reported questions.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <Text style={styles.summaryText}>
+          {queue.length} {queue.length === 1 ? 'question' : 'questions'} with open reports
+        </Text>
+
+        {queue.length === 0 && <Text style={styles.emptyText}>Nothing to review right now.</Text>}
+
+        {queue.map(item => {
+          const { question, reports } = item;
+          const busy = busyId === question.id;
+          const draft = editing?.questionId === question.id ? editing.draft : null;
+
+          return (
+            <View key={question.id} style={styles.itemCard}>
+              <View style={styles.metaRow}>
+                <Text style={styles.metaTag}>{question.category}</Text>
+                <Text style={styles.metaText}>{question.knowledgeArea}</Text>
+                {isRetired(question) && <Text style={styles.retiredTag}>Retired</Text>}
+              </View>
+
+              {draft ? (
+                <>
+                  <Text style={styles.fieldLabel}>Question</Text>
+                  <TextInput
+                    style={[styles.input, styles.multilineInput]}
+                    value={draft.questionText}
+                    onChangeText={questionText => updateDraft({ questionText })}
+                    multiline
+                  />
+                  <Text style={styles.fieldLabel}>Correct answer</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={draft.correctAnswer}
+                    onChangeText={correctAnswer => updateDraft({ correctAnswer })}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                  <Text style={styles.fieldLabel}>Explanation</Text>
+                  <TextInput
+                    style={[styles.input, styles.multilineInput]}
+                    value={draft.explanation}
+                    onChangeText={explanation => updateDraft({ explanation })}
+                    multiline
+                  />
+                </>
+              ) : (
+                <>
+                  <Text style={styles.questionText}>{question.questionText}</Text>
+                  <Text style={styles.fieldLabel}>Correct answer</Text>
+                  <Text style={styles.bodyText}>{formatResponse(question, question.correctAnswer)}</Text>
+                  {!!question.explanation && (
+                    <>
+                      <Text style={styles.fieldLabel}>Explanation</Text>
+                      <Text style={styles.bodyText}>{question.explanation}</Text>
+                    </>
+                  )}
+                </>
+              )}
+
+              <Text style={styles.fieldLabel}>
+                {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+              </Text>
+              {reports.map(report => (
+                <View key={report.id} style={styles.reportRow}>
+                  <AlertTriangle size={14} color="#F59E0B" />
+                  <View style={styles.reportBody}>
+                    <Text style={styles.reportReason}>
+                      {REPORT_REASON_LABELS[report.reason] ?? report.reason}
+                      <Text style={styles.metaText}> · {new Date(report.createdAt).toLocaleDateString()}</Text>
+                    </Text>
+                    {!!report.comment && <Text style={styles.bodyText}>{report.comment}</Text>}
+                  </View>
+                </View>
+              ))}
+
+              <View style={styles.actionRow}>
+                {draft ? (
+                  <>
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditing(null)} disabled={busy}>
+                      <Text style={styles.secondaryButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.primaryButton} onPress={() => saveEdit(item)} disabled={busy}>
+                      <Text style={styles.primaryButtonText}>{busy ? 'Saving...' : 'Save & Resolve'}</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : confirmRetireId === question.id ? (
+                  <>
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => setConfirmRetireId(null)} disabled={busy}>
+                      <Text style={styles.secondaryButtonText}>Keep</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.dangerButton}
+                      onPress={() => runAction(item, adminId => retireReportedQuestion(item, adminId))}
+                      disabled={busy}
+                    >
+                      <Text style={styles.primaryButtonText}>{busy ? 'Retiring...' : 'Confirm Retire'}</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => runAction(item, adminId => dismissReports(reports, adminId))}
+                      disabled={busy}
+                    >
+                      <Text style={styles.secondaryButtonText}>Dismiss</Text>
+                    </TouchableOpacity>
+                    {!isRetired(question) && (
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => {
+                          setEditing(null);
+                          setConfirmRetireId(question.id);
+                        }}
+                        disabled={busy}
+                      >
+                        <Text style={styles.dangerText}>Retire</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.primaryButton} onPress={() => startEditing(item)} disabled={busy}>
+                      <Text style={styles.primaryButtonText}>Edit</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  itemCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  metaTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  retiredTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B91C1C',
+    backgroundColor: '#FEF2F2',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  questionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+    lineHeight: 21,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: '#1E293B',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  reportBody: {
+    flex: 1,
+  },
+  reportReason: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  secondaryButtonText: {
+    color: '#475569',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: '#DC2626',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  dangerText: {
+    color: '#DC2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
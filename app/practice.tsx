@@ -1,65 +1,91 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
-import { ArrowLeft, CheckCircle, XCircle, BookOpen, RotateCcw } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, ArrowRight, RotateCcw, Flag, LayoutGrid, ListChecks, AlertTriangle } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { blink } from '@/lib/blink';
-
-interface Question {
-  id: string;
-  questionText: string;
-  optionA: string;
-  optionB: string;
-  optionC: string;
-  optionD: string;
-  correctAnswer: string;
-  explanation: string;
-  category: string;
-  knowledgeArea: string;
-  difficulty: string;
-}
-
-interface UserAnswer {
-  questionId: string;
-  selectedAnswer: string;
-  isCorrect: boolean;
-}
+import { Question } from '@/lib/questions';
+import { gradeResponse, isResponseComplete } from '@/lib/questionTypes';
+import { AnswerRecord, gradeAnswerSheet } from '@/lib/answers';
+import { recordReviews } from '@/lib/spacedRepetition';
+import { loadSessionQuestions, parseSessionConfig } from '@/lib/sessionConfig';
+import { queueStudySession, queueUpserts } from '@/lib/outbox';
+import { createId } from '@/lib/sessions';
+import { DEFAULT_PREFERENCES, Preferences, loadPreferences } from '@/lib/preferences';
+import { resultFeedback, selectionFeedback } from '@/lib/haptics';
+import { ReportReason, submitReport } from '@/lib/moderation';
+import { useAnswerSheet } from '@/hooks/useAnswerSheet';
+import { useQuestionTimer } from '@/hooks/useQuestionTimer';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { QuestionCard } from '@/components/QuestionCard';
+import { QuestionResponse } from '@/components/QuestionResponse';
+import { QuestionNavigator } from '@/components/QuestionNavigator';
+import { ExplanationPanel } from '@/components/ExplanationPanel';
+import { QuestionNotes } from '@/components/QuestionNotes';
+import { ReportQuestionForm } from '@/components/ReportQuestionForm';
 
 export default function Practice() {
+  const params = useLocalSearchParams<{ config?: string }>();
+  const [sessionConfig, setSessionConfig] = useState(() => parseSessionConfig(params.config));
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  // Questions whose answer has been checked (and locked) mid-session
+  const [checked, setChecked] = useState<Record<string, boolean>>({});
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reported, setReported] = useState<Record<string, boolean>>({});
+  const [sendingReport, setSendingReport] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [showExplanation, setShowExplanation] = useState(false);
-  const [userAnswers, setUserAnswers] = useState<UserAnswer[]>([]);
+  const [showNavigator, setShowNavigator] = useState(false);
+  const [reviewingSheet, setReviewingSheet] = useState(false);
+  const [gradedAnswers, setGradedAnswers] = useState<AnswerRecord[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [sessionComplete, setSessionComplete] = useState(false);
+  const answerSheet = useAnswerSheet();
+  const { bookmarks, toggleBookmark, saveNote } = useBookmarks(user?.id ?? null);
+  const questionTimer = useQuestionTimer(
+    sessionComplete || reviewingSheet ? null : questions[currentQuestionIndex]?.id ?? null
+  );
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
       if (state.user) {
         setUser(state.user);
-        await loadQuestions();
+        await loadPreferencesAndQuestions(state.user.id);
       }
       setLoading(state.isLoading);
     });
     return unsubscribe;
   }, []);
 
-  const loadQuestions = async () => {
+  // Without a config from setup (e.g. "Continue Streak"), the session size
+  // comes from preferences
+  const loadPreferencesAndQuestions = async (userId: string) => {
+    let config = sessionConfig;
+    try {
+      const loaded = await loadPreferences(userId);
+      setPreferences(loaded);
+      if (!params.config) {
+        config = { ...sessionConfig, questionCount: loaded.questionsPerSession };
+        setSessionConfig(config);
+      }
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    }
+    await loadQuestions(userId, config);
+  };
+
+  const loadQuestions = async (userId: string, config = sessionConfig) => {
     try {
       setLoading(true);
-      // Get 5 random questions for daily practice
-      const result = await blink.db.questions.list({
-        orderBy: { createdAt: 'desc' },
-        limit: 5
-      });
+      // Questions due for review first, then new ones, within the chosen filters
+      const result = await loadSessionQuestions(userId, config);
       
       if (result && result.length > 0) {
-        // Shuffle questions for variety
-        const shuffled = [...result].sort(() => Math.random() - 0.5);
-        setQuestions(shuffled);
+        setQuestions(result);
       } else {
         Alert.alert('Error', 'No questions available. Please try again later.');
       }
@@ -72,140 +98,112 @@ export default function Practice() {
   };
 
   const handleAnswerSelect = (answer: string) => {
-    if (showExplanation) return; // Prevent changing answer after submission
-    setSelectedAnswer(answer);
+    selectionFeedback(preferences.haptics);
+    answerSheet.select(questions[currentQuestionIndex].id, answer);
   };
 
-  const submitAnswer = async () => {
-    if (!selectedAnswer || !user) return;
-
-    const currentQuestion = questions[currentQuestionIndex];
-    const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
-
-    // Save user answer
-    const userAnswer: UserAnswer = {
-      questionId: currentQuestion.id,
-      selectedAnswer,
-      isCorrect
-    };
-
-    setUserAnswers(prev => [...prev, userAnswer]);
+  // Only offered when explanations are shown immediately; the answer is
+  // locked once checked, though grading still happens on submit
+  const checkAnswer = () => {
+    const question = questions[currentQuestionIndex];
+    const response = answerSheet.entries[question.id]?.selectedAnswer;
+    resultFeedback(preferences.haptics, gradeResponse(question, response) >= 1);
+    setChecked(prev => ({ ...prev, [question.id]: true }));
+  };
 
-    // Save to database
+  const sendReport = async (questionId: string, reason: ReportReason, comment: string) => {
+    if (!user) return;
+    setSendingReport(true);
     try {
-      await blink.db.userAnswers.create({
-        id: `answer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId: user.id,
-        questionId: currentQuestion.id,
-        selectedAnswer,
-        isCorrect: isCorrect ? 1 : 0,
-        answeredAt: new Date().toISOString()
-      });
+      await submitReport(user.id, questionId, reason, comment);
+      setReported(prev => ({ ...prev, [questionId]: true }));
+      setReportingId(null);
+      Alert.alert('Thanks', 'Your report was sent to the moderators.');
     } catch (error) {
-      console.error('Error saving answer:', error);
+      console.error('Error sending report:', error);
+      Alert.alert('Error', 'Failed to send your report. Please try again.');
+    } finally {
+      setSendingReport(false);
     }
+  };
+
+  const goToQuestion = (index: number) => {
+    setCurrentQuestionIndex(index);
+    setReviewingSheet(false);
+    setShowNavigator(false);
+  };
 
-    setShowExplanation(true);
+  const previousQuestion = () => {
+    if (currentQuestionIndex > 0) {
+      setCurrentQuestionIndex(prev => prev - 1);
+    }
   };
 
   const nextQuestion = () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
-      setSelectedAnswer(null);
-      setShowExplanation(false);
     } else {
-      completeSession();
+      setReviewingSheet(true);
     }
   };
 
+  // Grading is deferred until here so answers can be revised freely beforehand
   const completeSession = async () => {
-    if (!user) return;
-
-    const correctCount = userAnswers.filter(answer => answer.isCorrect).length + 
-                        (selectedAnswer === questions[currentQuestionIndex].correctAnswer ? 1 : 0);
-    const totalQuestions = questions.length;
+    if (!user || submitting) return;
+    setSubmitting(true);
+
+    const completedSessionId = createId('session');
+    const graded = gradeAnswerSheet(
+      user.id,
+      completedSessionId,
+      questions,
+      answerSheet.entries,
+      answerSheet.flagged,
+      questionTimer.getTimings()
+    );
+    const correctCount = graded.filter(answer => answer.isCorrect === 1).length;
 
     try {
-      // Update user stats
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if user already has a record
-      const existingUsers = await blink.db.users.list({
-        where: { id: user.id },
-        limit: 1
-      });
-
-      if (existingUsers.length > 0) {
-        const existingUser = existingUsers[0];
-        const lastStudyDate = existingUser.lastStudyDate;
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-        let newStreak = existingUser.currentStreak;
-        
-        // Calculate streak
-        if (lastStudyDate === today) {
-          // Already studied today, don't change streak
-        } else if (lastStudyDate === yesterdayStr) {
-          // Studied yesterday, increment streak
-          newStreak = existingUser.currentStreak + 1;
-        } else if (!lastStudyDate || lastStudyDate < yesterdayStr) {
-          // Missed days, reset streak to 1
-          newStreak = 1;
-        }
-
-        const newLongestStreak = Math.max(existingUser.longestStreak, newStreak);
-
-        await blink.db.users.update(user.id, {
-          currentStreak: newStreak,
-          longestStreak: newLongestStreak,
-          lastStudyDate: today,
-          totalQuestionsAnswered: existingUser.totalQuestionsAnswered + totalQuestions,
-          correctAnswers: existingUser.correctAnswers + correctCount,
-          updatedAt: new Date().toISOString()
-        });
-      } else {
-        // Create new user record
-        await blink.db.users.create({
-          id: user.id,
-          email: user.email,
-          displayName: user.displayName || user.email.split('@')[0],
-          currentStreak: 1,
-          longestStreak: 1,
-          lastStudyDate: today,
-          totalQuestionsAnswered: totalQuestions,
-          correctAnswers: correctCount,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        });
+      if (graded.length > 0) {
+        await queueUpserts('userAnswers', graded);
+        await recordReviews(user.id, graded.map(answer => ({
+          questionId: answer.questionId,
+          isCorrect: answer.isCorrect === 1
+        })));
       }
 
-      // Create study session record
-      await blink.db.studySessions.create({
-        id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId: user.id,
-        sessionDate: today,
-        questionsAnswered: totalQuestions,
+      await queueStudySession(completedSessionId, user, {
+        sessionType: 'practice',
+        questionsAnswered: graded.length,
         correctAnswers: correctCount,
-        sessionDuration: 0, // Could track actual time spent
-        createdAt: new Date().toISOString()
+        sessionDuration: questionTimer.getSessionDuration(),
+        sessionConfig,
+        questionIds: questions.map(question => question.id),
+        flaggedQuestionIds: questions.map(question => question.id).filter(id => answerSheet.flagged[id])
       });
 
+      setGradedAnswers(graded);
+      setSessionId(completedSessionId);
       setSessionComplete(true);
     } catch (error) {
       console.error('Error completing session:', error);
       Alert.alert('Error', 'Failed to save progress. Please try again.');
+    } finally {
+      setSubmitting(false);
     }
   };
 
   const restartPractice = () => {
     setCurrentQuestionIndex(0);
-    setSelectedAnswer(null);
-    setShowExplanation(false);
-    setUserAnswers([]);
+    setShowNavigator(false);
+    setReviewingSheet(false);
+    setGradedAnswers([]);
+    setSessionId(null);
+    setChecked({});
+    answerSheet.reset();
+    questionTimer.reset();
     setSessionComplete(false);
-    loadQuestions();
+    if (user) loadQuestions(user.id);
   };
 
   if (loading) {
@@ -232,7 +230,7 @@ export default function Practice() {
         
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>No questions available</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadQuestions}>
+          <TouchableOpacity style={styles.retryButton} onPress={() => user && loadQuestions(user.id)}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -241,7 +239,7 @@ export default function Practice() {
   }
 
   if (sessionComplete) {
-    const correctCount = userAnswers.filter(answer => answer.isCorrect).length;
+    const correctCount = gradedAnswers.filter(answer => answer.isCorrect === 1).length;
     const totalQuestions = questions.length;
     const percentage = Math.round((correctCount / totalQuestions) * 100);
 
@@ -271,6 +269,16 @@ export default function Practice() {
           </LinearGradient>
 
           <View style={styles.actionButtons}>
+            {sessionId && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => router.push({ pathname: '/review', params: { sessionId } })}
+              >
+                <ListChecks size={20} color="#2563EB" />
+                <Text style={styles.secondaryButtonText}>Review Answers</Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity style={styles.primaryButton} onPress={restartPractice}>
               <RotateCcw size={20} color="white" />
               <Text style={styles.primaryButtonText}>Practice Again</Text>
@@ -285,8 +293,67 @@ export default function Practice() {
     );
   }
 
+  const questionIds = questions.map(question => question.id);
+
+  if (reviewingSheet) {
+    const unansweredCount = questionIds.filter(id => !answerSheet.entries[id]).length;
+    const flaggedCount = questionIds.filter(id => answerSheet.flagged[id]).length;
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => setReviewingSheet(false)} style={styles.backButton}>
+            <ArrowLeft size={24} color="#2563EB" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Review Answers</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.sheetContainer}>
+          <Text style={styles.sheetText}>
+            Tap a question to revisit it. Answers can still be changed until you submit.
+          </Text>
+
+          <QuestionNavigator
+            questionIds={questionIds}
+            currentIndex={currentQuestionIndex}
+            answered={answerSheet.entries}
+            flagged={answerSheet.flagged}
+            onSelect={goToQuestion}
+          />
+
+          {(unansweredCount > 0 || flaggedCount > 0) && (
+            <View style={styles.warningCard}>
+              <Text style={styles.warningText}>
+                {unansweredCount > 0 ? `${unansweredCount} unanswered. ` : ''}
+                {flaggedCount > 0 ? `${flaggedCount} flagged for review.` : ''}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.actionContainer}>
+            <TouchableOpacity
+              style={[styles.submitButton, submitting && styles.disabledButton]}
+              onPress={completeSession}
+              disabled={submitting}
+            >
+              <Text style={styles.submitButtonText}>
+                {submitting ? 'Submitting...' : 'Submit Answers'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   const currentQuestion = questions[currentQuestionIndex];
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  const isFlagged = !!answerSheet.flagged[currentQuestion.id];
+  const currentResponse = answerSheet.entries[currentQuestion.id]?.selectedAnswer ?? null;
+  const isChecked = !!checked[currentQuestion.id];
+  const canCheck = preferences.explanationMode === 'immediate' && !isChecked
+    && isResponseComplete(currentQuestion, currentResponse);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -307,100 +374,99 @@ export default function Practice() {
         <View style={styles.progressBar}>
           <View style={[styles.progressFill, { width: `${progress}%` }]} />
         </View>
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={[styles.toolbarButton, isFlagged && styles.toolbarButtonActive]}
+            onPress={() => answerSheet.toggleFlag(currentQuestion.id)}
+          >
+            <Flag size={16} color="#F59E0B" fill={isFlagged ? '#F59E0B' : 'transparent'} />
+            <Text style={styles.toolbarButtonText}>{isFlagged ? 'Flagged' : 'Flag for review'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => setReportingId(prev => (prev === currentQuestion.id ? null : currentQuestion.id))}
+            disabled={!!reported[currentQuestion.id]}
+          >
+            <AlertTriangle size={16} color="#64748B" />
+            <Text style={styles.toolbarButtonText}>{reported[currentQuestion.id] ? 'Reported' : 'Report issue'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.toolbarButton} onPress={() => setShowNavigator(prev => !prev)}>
+            <LayoutGrid size={16} color="#2563EB" />
+            <Text style={styles.toolbarButtonText}>Questions</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-        {/* Question Card */}
-        <View style={styles.questionCard}>
-          <View style={styles.categoryBadge}>
-            <Text style={styles.categoryText}>{currentQuestion.category}</Text>
+        {showNavigator && (
+          <View style={styles.navigatorContainer}>
+            <QuestionNavigator
+              questionIds={questionIds}
+              currentIndex={currentQuestionIndex}
+              answered={answerSheet.entries}
+              flagged={answerSheet.flagged}
+              onSelect={goToQuestion}
+            />
           </View>
-          
-          <Text style={styles.questionText}>{currentQuestion.questionText}</Text>
-          
-          <View style={styles.knowledgeArea}>
-            <BookOpen size={16} color="#64748B" />
-            <Text style={styles.knowledgeAreaText}>{currentQuestion.knowledgeArea}</Text>
-          </View>
-        </View>
+        )}
 
-        {/* Answer Options */}
-        <View style={styles.optionsContainer}>
-          {[
-            { key: 'A', text: currentQuestion.optionA },
-            { key: 'B', text: currentQuestion.optionB },
-            { key: 'C', text: currentQuestion.optionC },
-            { key: 'D', text: currentQuestion.optionD }
-          ].map((option) => {
-            const isSelected = selectedAnswer === option.key;
-            const isCorrect = option.key === currentQuestion.correctAnswer;
-            const showResult = showExplanation;
-
-            let optionStyle = [styles.optionButton];
-            let textStyle = [styles.optionText];
-
-            if (showResult) {
-              if (isCorrect) {
-                optionStyle.push(styles.correctOption);
-                textStyle.push(styles.correctOptionText);
-              } else if (isSelected && !isCorrect) {
-                optionStyle.push(styles.incorrectOption);
-                textStyle.push(styles.incorrectOptionText);
-              }
-            } else if (isSelected) {
-              optionStyle.push(styles.selectedOption);
-              textStyle.push(styles.selectedOptionText);
-            }
-
-            return (
-              <TouchableOpacity
-                key={option.key}
-                style={optionStyle}
-                onPress={() => handleAnswerSelect(option.key)}
-                disabled={showExplanation}
-              >
-                <View style={styles.optionContent}>
-                  <View style={styles.optionLetter}>
-                    <Text style={[styles.optionLetterText, textStyle]}>{option.key}</Text>
-                  </View>
-                  <Text style={textStyle}>{option.text}</Text>
-                  {showResult && isCorrect && (
-                    <CheckCircle size={20} color="#10B981" />
-                  )}
-                  {showResult && isSelected && !isCorrect && (
-                    <XCircle size={20} color="#EF4444" />
-                  )}
-                </View>
-              </TouchableOpacity>
-            );
-          })}
-        </View>
+        {reportingId === currentQuestion.id && (
+          <ReportQuestionForm
+            submitting={sendingReport}
+            onSubmit={(reason, comment) => sendReport(currentQuestion.id, reason, comment)}
+            onCancel={() => setReportingId(null)}
+          />
+        )}
 
-        {/* Explanation */}
-        {showExplanation && (
-          <View style={styles.explanationCard}>
-            <Text style={styles.explanationTitle}>Explanation</Text>
-            <Text style={styles.explanationText}>{currentQuestion.explanation}</Text>
-          </View>
+        <QuestionCard question={currentQuestion} />
+
+        <QuestionResponse
+          question={currentQuestion}
+          response={currentResponse}
+          onChange={handleAnswerSelect}
+          showResult={isChecked}
+          disabled={isChecked}
+        />
+
+        {canCheck && (
+          <TouchableOpacity style={styles.checkButton} onPress={checkAnswer}>
+            <Text style={styles.checkButtonText}>Check Answer</Text>
+          </TouchableOpacity>
         )}
 
-        {/* Action Button */}
-        <View style={styles.actionContainer}>
-          {!showExplanation ? (
-            <TouchableOpacity
-              style={[styles.submitButton, !selectedAnswer && styles.disabledButton]}
-              onPress={submitAnswer}
-              disabled={!selectedAnswer}
-            >
-              <Text style={styles.submitButtonText}>Submit Answer</Text>
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity style={styles.nextButton} onPress={nextQuestion}>
-              <Text style={styles.nextButtonText}>
-                {currentQuestionIndex < questions.length - 1 ? 'Next Question' : 'Complete Session'}
-              </Text>
-            </TouchableOpacity>
-          )}
+        {isChecked && (
+          <ExplanationPanel
+            question={currentQuestion}
+            selectedAnswer={currentResponse}
+            note={bookmarks[currentQuestion.id]?.note}
+          />
+        )}
+
+        <QuestionNotes
+          key={currentQuestion.id}
+          bookmark={bookmarks[currentQuestion.id]}
+          onToggleBookmark={() => toggleBookmark(currentQuestion.id)}
+          onSaveNote={note => saveNote(currentQuestion.id, note)}
+          showNote={!isChecked}
+        />
+
+        {/* Navigation */}
+        <View style={styles.navigation}>
+          <TouchableOpacity
+            style={[styles.navButton, currentQuestionIndex === 0 && styles.disabledButton]}
+            onPress={previousQuestion}
+            disabled={currentQuestionIndex === 0}
+          >
+            <ArrowLeft size={20} color="white" />
+            <Text style={styles.nextButtonText}>Previous</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.nextButton} onPress={nextQuestion}>
+            <Text style={styles.nextButtonText}>
+              {currentQuestionIndex < questions.length - 1 ? 'Next' : 'Review & Submit'}
+            </Text>
+            <ArrowRight size={20} color="white" />
+          </TouchableOpacity>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -488,150 +554,110 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  questionCard: {
-    margin: 20,
-    backgroundColor: 'white',
+  actionContainer: {
     padding: 20,
+  },
+  submitButton: {
+    backgroundColor: '#2563EB',
+    padding: 16,
     borderRadius: 12,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  categoryBadge: {
-    alignSelf: 'flex-start',
-    backgroundColor: '#EEF2FF',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
-    marginBottom: 16,
+    alignItems: 'center',
   },
-  categoryText: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: '#2563EB',
+  disabledButton: {
+    backgroundColor: '#94A3B8',
   },
-  questionText: {
-    fontSize: 18,
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
     fontWeight: '600',
-    color: '#1E293B',
-    lineHeight: 26,
-    marginBottom: 16,
   },
-  knowledgeArea: {
+  nextButton: {
+    flex: 1,
+    backgroundColor: '#10B981',
     flexDirection: 'row',
     alignItems: 'center',
-  },
-  knowledgeAreaText: {
-    fontSize: 14,
-    color: '#64748B',
-    marginLeft: 6,
-  },
-  optionsContainer: {
-    paddingHorizontal: 20,
-    marginBottom: 20,
-  },
-  optionButton: {
-    backgroundColor: 'white',
-    marginBottom: 12,
+    justifyContent: 'center',
+    padding: 16,
     borderRadius: 12,
-    borderWidth: 2,
-    borderColor: '#E2E8F0',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.05,
-    shadowRadius: 2,
-    elevation: 1,
+    gap: 6,
   },
-  selectedOption: {
+  checkButton: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
     borderColor: '#2563EB',
-    backgroundColor: '#EEF2FF',
+    backgroundColor: 'white',
   },
-  correctOption: {
-    borderColor: '#10B981',
-    backgroundColor: '#ECFDF5',
+  checkButtonText: {
+    color: '#2563EB',
+    fontSize: 16,
+    fontWeight: '600',
   },
-  incorrectOption: {
-    borderColor: '#EF4444',
-    backgroundColor: '#FEF2F2',
+  navigation: {
+    flexDirection: 'row',
+    padding: 20,
+    gap: 12,
   },
-  optionContent: {
+  navButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
     flexDirection: 'row',
     alignItems: 'center',
+    justifyContent: 'center',
     padding: 16,
+    borderRadius: 12,
+    gap: 6,
   },
-  optionLetter: {
-    width: 32,
-    height: 32,
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
     borderRadius: 16,
     backgroundColor: '#F1F5F9',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 12,
+    gap: 6,
   },
-  optionLetterText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#64748B',
+  toolbarButtonActive: {
+    backgroundColor: '#FFFBEB',
   },
-  optionText: {
-    flex: 1,
-    fontSize: 16,
-    color: '#1E293B',
-    lineHeight: 22,
-  },
-  selectedOptionText: {
-    color: '#2563EB',
-  },
-  correctOptionText: {
-    color: '#10B981',
-  },
-  incorrectOptionText: {
-    color: '#EF4444',
+  toolbarButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
   },
-  explanationCard: {
-    margin: 20,
-    marginTop: 0,
-    backgroundColor: '#F8FAFC',
-    padding: 20,
-    borderRadius: 12,
-    borderLeftWidth: 4,
-    borderLeftColor: '#2563EB',
+  navigatorContainer: {
+    marginTop: 20,
   },
-  explanationTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#1E293B',
-    marginBottom: 8,
+  sheetContainer: {
+    paddingVertical: 20,
   },
-  explanationText: {
+  sheetText: {
     fontSize: 15,
     color: '#475569',
     lineHeight: 22,
+    marginHorizontal: 20,
+    marginBottom: 16,
   },
-  actionContainer: {
-    padding: 20,
-  },
-  submitButton: {
-    backgroundColor: '#2563EB',
+  warningCard: {
+    marginHorizontal: 20,
+    backgroundColor: '#FFFBEB',
     padding: 16,
     borderRadius: 12,
-    alignItems: 'center',
-  },
-  disabledButton: {
-    backgroundColor: '#94A3B8',
-  },
-  submitButtonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: '600',
+    borderLeftWidth: 4,
+    borderLeftColor: '#F59E0B',
   },
-  nextButton: {
-    backgroundColor: '#10B981',
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
+  warningText: {
+    fontSize: 14,
+    color: '#92400E',
+    lineHeight: 20,
   },
   nextButtonText: {
     color: 'white',
@@ -690,9 +716,12 @@ const styles = StyleSheet.create({
   },
   secondaryButton: {
     backgroundColor: 'white',
+    flexDirection: 'row',
     padding: 16,
     borderRadius: 12,
     alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
     borderWidth: 1,
     borderColor: '#E2E8F0',
   },
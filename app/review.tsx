@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, CheckCircle, XCircle, MinusCircle, Flag, Clock } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { Question } from '@/lib/questions';
+import { formatResponse, getChoiceOptions, getQuestionType, splitKeys } from '@/lib/questionTypes';
+import { SESSION_TYPE_LABELS, countSessionQuestions } from '@/lib/sessions';
+import {
+  REVIEW_FILTER_LABELS,
+  ReviewFilter,
+  SessionReview,
+  filterReviewItems,
+  loadSessionReview
+} from '@/lib/sessionReview';
+import { Chip } from '@/components/Chip';
+import { ExplanationPanel } from '@/components/ExplanationPanel';
+import { QuestionNotes } from '@/components/QuestionNotes';
+import { useBookmarks } from '@/hooks/useBookmarks';
+
+const FILTERS: ReviewFilter[] = ['all', 'incorrect', 'flagged'];
+
+// Choice answers read better with the option text next to the letter
+const describeResponse = (question: Question, response: string | null | undefined) => {
+  const type = getQuestionType(question);
+  if (!response || (type !== 'single' && type !== 'multiple')) return formatResponse(question, response);
+  const options = getChoiceOptions(question);
+  return splitKeys(response)
+    .sort()
+    .map(key => `${key}. ${options.find(option => option.key === key)?.text ?? ''}`)
+    .join('\n');
+};
+
+const formatSeconds = (ms: number | null) => {
+  if (ms === null) return null;
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export default function Review() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const [review, setReview] = useState<SessionReview | null>(null);
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [knowledgeArea, setKnowledgeArea] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const { bookmarks, toggleBookmark, saveNote } = useBookmarks(userId);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        setUserId(state.user.id);
+        await loadReview(state.user.id);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, [sessionId]);
+
+  const loadReview = async (userId: string) => {
+    if (!sessionId) return;
+    try {
+      setLoading(true);
+      setReview(await loadSessionReview(userId, sessionId));
+    } catch (error) {
+      console.error('Error loading session review:', error);
+      Alert.alert('Error', 'Failed to load this session. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Answer Review</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563EB" />
+          <Text style={styles.loadingText}>Loading session...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!review) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>This session could not be found.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { session, items } = review;
+  const knowledgeAreas = Array.from(new Set(items.map(item => item.question.knowledgeArea))).sort();
+  const visibleItems = filterReviewItems(items, filter, knowledgeArea);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryTitle}>{SESSION_TYPE_LABELS[session.sessionType] ?? 'Session'}</Text>
+          <Text style={styles.summaryText}>
+            {new Date(session.createdAt || session.sessionDate).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric'
+            })} · {session.correctAnswers}/{countSessionQuestions(session)} correct
+          </Text>
+        </View>
+
+        {items.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Question-level answers weren't recorded for this session.
+          </Text>
+        ) : (
+          <>
+            <View style={styles.filterRow}>
+              {FILTERS.map(option => (
+                <Chip
+                  key={option}
+                  label={REVIEW_FILTER_LABELS[option]}
+                  selected={filter === option}
+                  onPress={() => setFilter(option)}
+                />
+              ))}
+            </View>
+            {knowledgeAreas.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+                {knowledgeAreas.map(area => (
+                  <Chip
+                    key={area}
+                    label={area}
+                    selected={knowledgeArea === area}
+                    onPress={() => setKnowledgeArea(knowledgeArea === area ? null : area)}
+                  />
+                ))}
+              </ScrollView>
+            )}
+
+            {visibleItems.length === 0 && (
+              <Text style={styles.emptyText}>No questions match these filters.</Text>
+            )}
+
+            {visibleItems.map(({ question, answer, editedSince, flagged }) => {
+              const number = items.findIndex(item => item.question.id === question.id) + 1;
+              const timeTaken = formatSeconds(answer?.timeSpentMs ?? null);
+              const score = answer?.score ?? null;
+              return (
+                <View key={question.id} style={styles.reviewItem}>
+                  <View style={styles.reviewHeader}>
+                    {!answer ? (
+                      <MinusCircle size={18} color="#94A3B8" />
+                    ) : answer.isCorrect === 1 ? (
+                      <CheckCircle size={18} color="#10B981" />
+                    ) : (
+                      <XCircle size={18} color="#EF4444" />
+                    )}
+                    <Text style={styles.reviewQuestion}>
+                      {number}. {question.questionText}
+                    </Text>
+                  </View>
+
+                  <View style={styles.metaRow}>
+                    <Text style={styles.metaTag}>{question.knowledgeArea}</Text>
+                    {timeTaken && (
+                      <View style={styles.metaItem}>
+                        <Clock size={12} color="#64748B" />
+                        <Text style={styles.metaText}>{timeTaken}</Text>
+                      </View>
+                    )}
+                    {flagged && (
+                      <View style={styles.metaItem}>
+                        <Flag size={12} color="#F59E0B" />
+                        <Text style={styles.metaText}>Flagged</Text>
+                      </View>
+                    )}
+                    {score !== null && score > 0 && score < 1 && (
+                      <Text style={styles.metaText}>Partial credit {Math.round(score * 100)}%</Text>
+                    )}
+                    {editedSince && (
+                      <Text style={styles.metaText}>Shown as you answered it; since updated</Text>
+                    )}
+                  </View>
+
+                  <Text style={styles.answerLabel}>Your answer</Text>
+                  <Text style={[styles.answerText, answer?.isCorrect !== 1 && styles.incorrectText]}>
+                    {answer ? describeResponse(question, answer.selectedAnswer) : 'Not answered'}
+                  </Text>
+                  {answer?.originalAnswer && (
+                    <Text style={styles.metaText}>
+                      Changed from {formatResponse(question, answer.originalAnswer)}
+                    </Text>
+                  )}
+
+                  {answer?.isCorrect !== 1 && (
+                    <>
+                      <Text style={styles.answerLabel}>Correct answer</Text>
+                      <Text style={[styles.answerText, styles.correctText]}>
+                        {describeResponse(question, question.correctAnswer)}
+                      </Text>
+                    </>
+                  )}
+
+                  <ExplanationPanel
+                    question={question}
+                    selectedAnswer={answer?.selectedAnswer}
+                    note={bookmarks[question.id]?.note}
+                    style={styles.explanationPanel}
+                  />
+
+                  <QuestionNotes
+                    bookmark={bookmarks[question.id]}
+                    onToggleBookmark={() => toggleBookmark(question.id)}
+                    onSaveNote={note => saveNote(question.id, note)}
+                    showNote={false}
+                    style={styles.questionNotes}
+                  />
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#64748B',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reviewItem: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 8,
+  },
+  reviewQuestion: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+    lineHeight: 21,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  metaTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  answerLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 2,
+  },
+  answerText: {
+    fontSize: 14,
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+  incorrectText: {
+    color: '#EF4444',
+  },
+  correctText: {
+    color: '#10B981',
+  },
+  explanationPanel: {
+    margin: 0,
+    marginTop: 12,
+    padding: 16,
+  },
+  questionNotes: {
+    marginHorizontal: 0,
+  },
+});
@@ -0,0 +1,541 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Switch, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Shield } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { AuthUser, loadUserProfile, updateUserProfile } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import {
+  DailyGoal,
+  GOAL_MINUTE_OPTIONS,
+  GOAL_QUESTION_OPTIONS,
+  describeDailyGoal,
+  getDailyGoal
+} from '@/lib/dailyGoal';
+import {
+  QUIET_END_OPTIONS,
+  QUIET_START_OPTIONS,
+  REMINDER_TIME_OPTIONS,
+  ReminderSettings,
+  STREAK_ALERT_TIME_OPTIONS,
+  formatTimeOfDay,
+  remindersSupported,
+  requestReminderPermission,
+  syncReminders
+} from '@/lib/reminders';
+import {
+  EXPLANATION_MODE_LABELS,
+  ExplanationMode,
+  Preferences,
+  THEME_LABELS,
+  ThemePreference,
+  applyTheme,
+  daysUntilExam,
+  describeExamCountdown,
+  isValidDateKey,
+  loadPreferences,
+  savePreferences
+} from '@/lib/preferences';
+import { QUESTION_COUNT_OPTIONS } from '@/lib/sessionConfig';
+import { WEEKLY_HOURS_OPTIONS } from '@/lib/studyPlan';
+import { daysBetween, localDateKey } from '@/lib/streak';
+import { isAdmin } from '@/lib/moderation';
+import { Chip } from '@/components/Chip';
+
+export default function Settings() {
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [examDateInput, setExamDateInput] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        setAuthUser(state.user);
+        await loadUserData(state.user);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadUserData = async (authUser: AuthUser) => {
+    try {
+      setUser(await loadUserProfile(authUser, { fresh: true }));
+      const loaded = await loadPreferences(authUser.id);
+      setPreferences(loaded);
+      setExamDateInput(loaded.examDate ?? '');
+    } catch (error) {
+      console.error('Error loading user data:', error);
+      Alert.alert('Error', 'Failed to load your settings');
+    }
+  };
+
+  // Applied right away, and rolled back if the save fails
+  const saveChanges = async (changes: Partial<User>) => {
+    if (!authUser || !user) return;
+    const previous = user;
+    setUser({ ...user, ...changes });
+    try {
+      await updateUserProfile(authUser, changes);
+      // The goal shows up in reminder text
+      if (preferences) {
+        syncReminders({ ...user, ...changes }, preferences.reminders).catch(error => console.error('Error scheduling reminders:', error));
+      }
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      setUser(previous);
+      Alert.alert('Error', 'Failed to save your settings. Please try again.');
+    }
+  };
+
+  const saveGoal = (goal: DailyGoal) =>
+    saveChanges({ dailyGoalQuestions: goal.questions, dailyGoalMinutes: goal.minutes });
+
+  // Preferences only live on this device, so saving rarely fails; if it
+  // does, the change is rolled back like profile changes are
+  const savePreferenceChanges = async (changes: Partial<Preferences>) => {
+    if (!user || !preferences) return null;
+    const previous = preferences;
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    try {
+      await savePreferences(user.id, next);
+      return next;
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save your settings. Please try again.');
+      return null;
+    }
+  };
+
+  const saveExamDate = () => {
+    const value = examDateInput.trim();
+    if (value && !isValidDateKey(value)) {
+      Alert.alert('Invalid date', 'Enter your exam date as YYYY-MM-DD.');
+      setExamDateInput(preferences?.examDate ?? '');
+      return;
+    }
+    if (value && daysBetween(localDateKey(), value) <= 0) {
+      Alert.alert('Invalid date', 'Your exam date needs to be after today.');
+      setExamDateInput(preferences?.examDate ?? '');
+      return;
+    }
+    if ((value || null) === preferences?.examDate) return;
+    // A new date means a new plan, so missed days count from today
+    savePreferenceChanges({ examDate: value || null, studyPlanStart: value ? localDateKey() : null });
+  };
+
+  const saveTheme = async (theme: ThemePreference) => {
+    if (await savePreferenceChanges({ theme })) applyTheme(theme);
+  };
+
+  const saveReminders = async (changes: Partial<ReminderSettings>) => {
+    if (!user || !preferences) return;
+    const turningOn = (changes.dailyReminder || changes.streakAlert) === true;
+    if (turningOn && !(await requestReminderPermission())) {
+      Alert.alert('Notifications are off', 'Allow notifications for this app in your device settings to get reminders.');
+      return;
+    }
+
+    const next = await savePreferenceChanges({ reminders: { ...preferences.reminders, ...changes } });
+    if (!next) return;
+    try {
+      await syncReminders(user, next.reminders);
+    } catch (error) {
+      console.error('Error saving reminders:', error);
+      Alert.alert('Error', 'Failed to update reminders. Please try again.');
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <ArrowLeft size={24} color="#2563EB" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Settings</Text>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (loading || !user || !preferences) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>{loading ? 'Loading...' : 'Please sign in to change settings'}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const goal = getDailyGoal(user);
+  const { reminders } = preferences;
+  const examCountdown = describeExamCountdown(daysUntilExam(preferences));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Exam & Study Plan</Text>
+          <Text style={styles.cardSubtitle}>
+            {examCountdown ?? 'Add your exam date and weekly study time to get a week-by-week plan.'}
+          </Text>
+          <Text style={styles.optionLabel}>Exam date</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              value={examDateInput}
+              onChangeText={setExamDateInput}
+              onBlur={saveExamDate}
+              onSubmitEditing={saveExamDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#94A3B8"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="numbers-and-punctuation"
+            />
+            {!!preferences.examDate && (
+              <TouchableOpacity
+                onPress={() => {
+                  setExamDateInput('');
+                  savePreferenceChanges({ examDate: null, studyPlanStart: null });
+                }}
+              >
+                <Text style={styles.linkText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <Text style={styles.optionLabel}>Hours per week</Text>
+          <View style={styles.chipRow}>
+            {WEEKLY_HOURS_OPTIONS.map(option => (
+              <Chip
+                key={option}
+                label={`${option} h`}
+                selected={preferences.weeklyHours === option}
+                onPress={() => savePreferenceChanges({ weeklyHours: option })}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Daily Goal</Text>
+          <Text style={styles.cardSubtitle}>
+            Meeting your goal is what extends your streak. Currently: {describeDailyGoal(goal)}.
+          </Text>
+
+          <Text style={styles.optionLabel}>Questions per day</Text>
+          <View style={styles.chipRow}>
+            {GOAL_QUESTION_OPTIONS.map(option => (
+              <Chip
+                key={option}
+                label={option === 0 ? 'Off' : String(option)}
+                selected={goal.questions === option}
+                onPress={() => saveGoal({ ...goal, questions: option })}
+                disabled={option === 0 && goal.minutes === 0}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.optionLabel}>Minutes per day</Text>
+          <View style={styles.chipRow}>
+            {GOAL_MINUTE_OPTIONS.map(option => (
+              <Chip
+                key={option}
+                label={option === 0 ? 'Off' : `${option} min`}
+                selected={goal.minutes === option}
+                onPress={() => saveGoal({ ...goal, minutes: option })}
+                disabled={option === 0 && goal.questions === 0}
+              />
+            ))}
+          </View>
+          <Text style={styles.hintText}>Set both to require both. At least one has to stay on.</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Practice</Text>
+
+          <Text style={styles.optionLabel}>Questions per session</Text>
+          <View style={styles.chipRow}>
+            {QUESTION_COUNT_OPTIONS.map(option => (
+              <Chip
+                key={option}
+                label={String(option)}
+                selected={preferences.questionsPerSession === option}
+                onPress={() => savePreferenceChanges({ questionsPerSession: option })}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.optionLabel}>Show explanations</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(EXPLANATION_MODE_LABELS) as ExplanationMode[]).map(mode => (
+              <Chip
+                key={mode}
+                label={EXPLANATION_MODE_LABELS[mode]}
+                selected={preferences.explanationMode === mode}
+                onPress={() => savePreferenceChanges({ explanationMode: mode })}
+              />
+            ))}
+          </View>
+          <Text style={styles.hintText}>
+            Checking an answer locks it in. Mock exams always hold explanations until the end.
+          </Text>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.optionLabel}>Haptic feedback</Text>
+            </View>
+            <Switch
+              value={preferences.haptics}
+              onValueChange={value => { savePreferenceChanges({ haptics: value }); }}
+            />
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Appearance</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(THEME_LABELS) as ThemePreference[]).map(theme => (
+              <Chip
+                key={theme}
+                label={THEME_LABELS[theme]}
+                selected={preferences.theme === theme}
+                onPress={() => saveTheme(theme)}
+              />
+            ))}
+          </View>
+          <Text style={styles.hintText}>Applies to system controls like switches and the keyboard in the iOS and Android apps.</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Reminders</Text>
+          {!remindersSupported ? (
+            <Text style={styles.cardSubtitle}>Reminders are available in the iOS and Android apps.</Text>
+          ) : (
+            <>
+              <View style={styles.switchRow}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.optionLabel}>Daily study reminder</Text>
+                  <Text style={styles.hintText}>Skipped on days you've already met your goal</Text>
+                </View>
+                <Switch
+                  value={reminders.dailyReminder}
+                  onValueChange={value => saveReminders({ dailyReminder: value })}
+                />
+              </View>
+              {reminders.dailyReminder && (
+                <View style={styles.chipRow}>
+                  {REMINDER_TIME_OPTIONS.map(option => (
+                    <Chip
+                      key={option}
+                      label={formatTimeOfDay(option)}
+                      selected={reminders.dailyReminderTime === option}
+                      onPress={() => saveReminders({ dailyReminderTime: option })}
+                    />
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.optionLabel}>Streak at risk alert</Text>
+                  <Text style={styles.hintText}>Late in the day, only if you haven't studied yet</Text>
+                </View>
+                <Switch
+                  value={reminders.streakAlert}
+                  onValueChange={value => saveReminders({ streakAlert: value })}
+                />
+              </View>
+              {reminders.streakAlert && (
+                <View style={styles.chipRow}>
+                  {STREAK_ALERT_TIME_OPTIONS.map(option => (
+                    <Chip
+                      key={option}
+                      label={formatTimeOfDay(option)}
+                      selected={reminders.streakAlertTime === option}
+                      onPress={() => saveReminders({ streakAlertTime: option })}
+                    />
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.optionLabel}>Quiet hours</Text>
+                  <Text style={styles.hintText}>Reminders due in this window move outside it</Text>
+                </View>
+                <Switch
+                  value={reminders.quietHours}
+                  onValueChange={value => saveReminders({ quietHours: value })}
+                />
+              </View>
+              {reminders.quietHours && (
+                <>
+                  <Text style={styles.optionLabel}>From</Text>
+                  <View style={styles.chipRow}>
+                    {QUIET_START_OPTIONS.map(option => (
+                      <Chip
+                        key={option}
+                        label={formatTimeOfDay(option)}
+                        selected={reminders.quietStart === option}
+                        onPress={() => saveReminders({ quietStart: option })}
+                      />
+                    ))}
+                  </View>
+                  <Text style={styles.optionLabel}>Until</Text>
+                  <View style={styles.chipRow}>
+                    {QUIET_END_OPTIONS.map(option => (
+                      <Chip
+                        key={option}
+                        label={formatTimeOfDay(option)}
+                        selected={reminders.quietEnd === option}
+                        onPress={() => saveReminders({ quietEnd: option })}
+                      />
+                    ))}
+                  </View>
+                </>
+              )}
+            </>
+          )}
+        </View>
+
+        {isAdmin(user) && (
+          <TouchableOpacity style={[styles.card, styles.linkCard]} onPress={() => router.push('/admin')}>
+            <Shield size={20} color="#2563EB" />
+            <View style={styles.switchLabel}>
+              <Text style={styles.cardTitle}>Manage Questions</Text>
+              <Text style={styles.hintText}>Write, edit and retire questions, and review reports</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748B',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  linkCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1E293B',
+    paddingVertical: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+    marginLeft: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, BookOpen } from 'lucide-react-native';
+import { blink } from '@/lib/blink';
+import { Question } from '@/lib/questions';
+import { loadQuestionBank } from '@/lib/questionBank';
+import {
+  SessionConfig,
+  DEFAULT_SESSION_CONFIG,
+  ECO_DOMAINS,
+  DIFFICULTIES,
+  QUESTION_COUNT_OPTIONS,
+  QUESTION_SOURCE_LABELS,
+  QuestionSource,
+  matchesSessionConfig,
+  serializeSessionConfig,
+} from '@/lib/sessionConfig';
+import { loadPreferences } from '@/lib/preferences';
+import { listBookmarkedIds } from '@/lib/bookmarks';
+import { Chip } from '@/components/Chip';
+
+type QuestionAttributes = Pick<Question, 'id' | 'category' | 'knowledgeArea' | 'difficulty'>;
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function SessionSetup() {
+  const [config, setConfig] = useState<SessionConfig>(DEFAULT_SESSION_CONFIG);
+  const [bank, setBank] = useState<QuestionAttributes[]>([]);
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+      if (state.user) {
+        await Promise.all([loadDefaultCount(state.user.id), loadBankAttributes(), loadBookmarks(state.user.id)]);
+      }
+      setLoading(state.isLoading);
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadDefaultCount = async (userId: string) => {
+    try {
+      const { questionsPerSession } = await loadPreferences(userId);
+      setConfig(prev => ({ ...prev, questionCount: questionsPerSession }));
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    }
+  };
+
+  const loadBookmarks = async (userId: string) => {
+    try {
+      setBookmarkedIds(await listBookmarkedIds(userId));
+    } catch (error) {
+      console.error('Error loading bookmarks:', error);
+    }
+  };
+
+  // Builds the pickers and live match counts; uses the cached bank offline
+  const loadBankAttributes = async () => {
+    try {
+      setBank(await loadQuestionBank());
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+    }
+  };
+
+  const sourceBank = config.source === 'bookmarks' ? bank.filter(question => bookmarkedIds.has(question.id)) : bank;
+
+  const knowledgeAreas = Array.from(new Set(
+    sourceBank
+      .filter(question => config.domains.length === 0 || config.domains.includes(question.category))
+      .map(question => question.knowledgeArea)
+      .filter(Boolean)
+  )).sort();
+
+  const matchingCount = sourceBank.filter(question => matchesSessionConfig(question, config)).length;
+
+  const selectSource = (source: QuestionSource) => {
+    setConfig(prev => ({ ...prev, source, knowledgeAreas: [] }));
+  };
+
+  const toggleDomain = (domain: string) => {
+    setConfig(prev => ({ ...prev, domains: toggle(prev.domains, domain), knowledgeAreas: [] }));
+  };
+
+  const startSession = () => {
+    router.push({
+      pathname: '/practice',
+      params: { config: serializeSessionConfig(config) }
+    });
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563EB" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#2563EB" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Session Setup</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Question Source</Text>
+          <Text style={styles.sectionHint}>Bookmark questions during practice or review to build a set here</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(QUESTION_SOURCE_LABELS) as QuestionSource[]).map(source => (
+              <Chip
+                key={source}
+                label={source === 'bookmarks' ? `${QUESTION_SOURCE_LABELS[source]} (${bookmarkedIds.size})` : QUESTION_SOURCE_LABELS[source]}
+                selected={config.source === source}
+                onPress={() => selectSource(source)}
+                disabled={source === 'bookmarks' && bookmarkedIds.size === 0}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>ECO Domains</Text>
+          <Text style={styles.sectionHint}>Leave empty to include all domains</Text>
+          <View style={styles.chipRow}>
+            {ECO_DOMAINS.map(domain => (
+              <Chip
+                key={domain}
+                label={domain}
+                selected={config.domains.includes(domain)}
+                onPress={() => toggleDomain(domain)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {knowledgeAreas.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Knowledge Areas</Text>
+            <Text style={styles.sectionHint}>Leave empty to include all knowledge areas</Text>
+            <View style={styles.chipRow}>
+              {knowledgeAreas.map(area => (
+                <Chip
+                  key={area}
+                  label={area}
+                  selected={config.knowledgeAreas.includes(area)}
+                  onPress={() => setConfig(prev => ({ ...prev, knowledgeAreas: toggle(prev.knowledgeAreas, area) }))}
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Difficulty Mix</Text>
+          <Text style={styles.sectionHint}>Questions are split evenly across the selected levels</Text>
+          <View style={styles.chipRow}>
+            {DIFFICULTIES.map(difficulty => (
+              <Chip
+                key={difficulty}
+                label={capitalize(difficulty)}
+                selected={config.difficulties.includes(difficulty)}
+                onPress={() => setConfig(prev => ({ ...prev, difficulties: toggle(prev.difficulties, difficulty) }))}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Number of Questions</Text>
+          <View style={styles.chipRow}>
+            {QUESTION_COUNT_OPTIONS.map(count => (
+              <Chip
+                key={count}
+                label={String(count)}
+                selected={config.questionCount === count}
+                onPress={() => setConfig(prev => ({ ...prev, questionCount: count }))}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.actionContainer}>
+          <Text style={styles.matchText}>
+            {matchingCount} matching {matchingCount === 1 ? 'question' : 'questions'} in the bank
+          </Text>
+          <TouchableOpacity
+            style={[styles.startButton, matchingCount === 0 && styles.disabledButton]}
+            onPress={startSession}
+            disabled={matchingCount === 0}
+          >
+            <BookOpen size={20} color="white" />
+            <Text style={styles.startButtonText}>Start Practice</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  headerRight: {
+    width: 32,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    margin: 20,
+    marginBottom: 0,
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  actionContainer: {
+    padding: 20,
+  },
+  matchText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  startButton: {
+    backgroundColor: '#2563EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  startButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
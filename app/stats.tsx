@@ -2,89 +2,60 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Dimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { ArrowLeft, TrendingUp, Target, BookOpen, Award, Calendar, CheckCircle, XCircle } from 'lucide-react-native';
+import { ArrowLeft, TrendingUp, Target, BookOpen, Award, Calendar, CheckCircle, XCircle, Clock } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { blink } from '@/lib/blink';
+import { SESSION_TYPE_LABELS, countSessionQuestions } from '@/lib/sessions';
+import { AuthUser, answersRepository, loadUserProfile, sessionsRepository } from '@/lib/repository';
+import { StudySession, User } from '@/lib/schema';
+import { AnswerRecord } from '@/lib/answers';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { getStreakStatus } from '@/lib/streak';
+import { CategoryStats, withoutRetiredAnswers } from '@/lib/stats';
+import { aggregateAverageSeconds, aggregateCategoryStats, loadAnswerAggregates, overallAccuracy } from '@/lib/answerAggregates';
+import { EXAM_SECONDS_PER_QUESTION } from '@/lib/mockExam';
+import { describeDailyGoal, getDailyGoal } from '@/lib/dailyGoal';
+import { MasteryGrid, loadMasteryHeatmap } from '@/lib/mastery';
+import {
+  READINESS_BAND_COLORS,
+  READINESS_BAND_LABELS,
+  ReadinessReport,
+  getReadinessBand,
+  loadReadiness
+} from '@/lib/readiness';
+import { MasteryHeatmap } from '@/components/MasteryHeatmap';
 
 const { width } = Dimensions.get('window');
 
-interface User {
-  id: string;
-  email: string;
-  displayName: string;
-  currentStreak: number;
-  longestStreak: number;
-  lastStudyDate: string;
-  totalQuestionsAnswered: number;
-  correctAnswers: number;
-}
-
-interface UserAnswer {
-  id: string;
-  userId: string;
-  questionId: string;
-  selectedAnswer: string;
-  isCorrect: number;
-  answeredAt: string;
-}
-
-interface StudySession {
-  id: string;
-  userId: string;
-  sessionDate: string;
-  questionsAnswered: number;
-  correctAnswers: number;
-  sessionDuration: number;
-}
-
-interface CategoryStats {
-  category: string;
-  total: number;
-  correct: number;
-  accuracy: number;
-}
+const RECENT_ANSWER_COUNT = 20;
 
 export default function Stats() {
   const [user, setUser] = useState<User | null>(null);
-  const [userAnswers, setUserAnswers] = useState<UserAnswer[]>([]);
+  const [userAnswers, setUserAnswers] = useState<AnswerRecord[]>([]);
   const [studySessions, setStudySessions] = useState<StudySession[]>([]);
   const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([]);
+  const [averageSeconds, setAverageSeconds] = useState<number | null>(null);
+  const [readiness, setReadiness] = useState<ReadinessReport | null>(null);
+  const [heatmap, setHeatmap] = useState<MasteryGrid | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
       if (state.user) {
-        await loadUserData(state.user.id);
+        await loadUserData(state.user);
         await loadUserAnswers(state.user.id);
         await loadStudySessions(state.user.id);
+        await loadReadinessReport(state.user.id);
+        await loadHeatmap(state.user.id);
       }
       setLoading(state.isLoading);
     });
     return unsubscribe;
   }, []);
 
-  const loadUserData = async (userId: string) => {
+  const loadUserData = async (authUser: AuthUser) => {
     try {
-      const existingUsers = await blink.db.users.list({
-        where: { id: userId },
-        limit: 1
-      });
-
-      if (existingUsers.length > 0) {
-        const dbUser = existingUsers[0];
-        const authUser = await blink.auth.me();
-        
-        setUser({
-          id: userId,
-          email: authUser.email,
-          displayName: dbUser.displayName || authUser.displayName || authUser.email.split('@')[0],
-          currentStreak: dbUser.currentStreak || 0,
-          longestStreak: dbUser.longestStreak || 0,
-          lastStudyDate: dbUser.lastStudyDate || '',
-          totalQuestionsAnswered: dbUser.totalQuestionsAnswered || 0,
-          correctAnswers: dbUser.correctAnswers || 0
-        });
-      }
+      setUser(await loadUserProfile(authUser));
     } catch (error) {
       console.error('Error loading user data:', error);
     }
@@ -92,14 +63,21 @@ export default function Stats() {
 
   const loadUserAnswers = async (userId: string) => {
     try {
-      const answers = await blink.db.userAnswers.list({
-        where: { userId },
-        orderBy: { answeredAt: 'desc' },
-        limit: 100
-      });
-      
-      setUserAnswers(answers);
-      await calculateCategoryStats(answers);
+      // Category and pacing figures cover the whole history through the
+      // aggregate tables; only the recent-performance window reads answers
+      const [recent, aggregates, questions] = await Promise.all([
+        answersRepository.list({
+          where: { userId },
+          orderBy: { answeredAt: 'desc' },
+          limit: RECENT_ANSWER_COUNT
+        }),
+        loadAnswerAggregates(userId),
+        loadQuestionBank({ includeRetired: true })
+      ]);
+
+      setUserAnswers(withoutRetiredAnswers(recent, questions));
+      setCategoryStats(aggregateCategoryStats(aggregates, questions));
+      setAverageSeconds(aggregateAverageSeconds(aggregates.days));
     } catch (error) {
       console.error('Error loading user answers:', error);
     }
@@ -107,7 +85,7 @@ export default function Stats() {
 
   const loadStudySessions = async (userId: string) => {
     try {
-      const sessions = await blink.db.studySessions.list({
+      const sessions = await sessionsRepository.list({
         where: { userId },
         orderBy: { sessionDate: 'desc' },
         limit: 30
@@ -119,39 +97,19 @@ export default function Stats() {
     }
   };
 
-  const calculateCategoryStats = async (answers: UserAnswer[]) => {
+  const loadReadinessReport = async (userId: string) => {
     try {
-      // Get all questions to map answers to categories
-      const questions = await blink.db.questions.list({
-        limit: 100
-      });
-
-      const questionMap = new Map(questions.map(q => [q.id, q]));
-      const categoryMap = new Map<string, { total: number; correct: number }>();
-
-      answers.forEach(answer => {
-        const question = questionMap.get(answer.questionId);
-        if (question) {
-          const category = question.category;
-          const current = categoryMap.get(category) || { total: 0, correct: 0 };
-          
-          categoryMap.set(category, {
-            total: current.total + 1,
-            correct: current.correct + (Number(answer.isCorrect) > 0 ? 1 : 0)
-          });
-        }
-      });
-
-      const stats: CategoryStats[] = Array.from(categoryMap.entries()).map(([category, data]) => ({
-        category,
-        total: data.total,
-        correct: data.correct,
-        accuracy: data.total > 0 ? Math.round((data.correct / data.total) * 100) : 0
-      })).sort((a, b) => b.total - a.total);
+      setReadiness(await loadReadiness(userId));
+    } catch (error) {
+      console.error('Error loading readiness:', error);
+    }
+  };
 
-      setCategoryStats(stats);
+  const loadHeatmap = async (userId: string) => {
+    try {
+      setHeatmap(await loadMasteryHeatmap(userId));
     } catch (error) {
-      console.error('Error calculating category stats:', error);
+      console.error('Error loading mastery heatmap:', error);
     }
   };
 
@@ -161,42 +119,11 @@ export default function Stats() {
     return '#EF4444';
   };
 
-  const getProgressLevel = () => {
-    if (!user) return { level: 'Beginner', progress: 0, nextLevel: 'Intermediate' };
-    
-    const total = user.totalQuestionsAnswered;
-    if (total >= 500) return { level: 'Expert', progress: 100, nextLevel: 'Master' };
-    if (total >= 200) return { level: 'Advanced', progress: (total - 200) / 300 * 100, nextLevel: 'Expert' };
-    if (total >= 50) return { level: 'Intermediate', progress: (total - 50) / 150 * 100, nextLevel: 'Advanced' };
-    return { level: 'Beginner', progress: total / 50 * 100, nextLevel: 'Intermediate' };
-  };
-
   const getRecentPerformance = () => {
-    const recentAnswers = userAnswers.slice(0, 20); // Last 20 answers
-    if (recentAnswers.length === 0) return 0;
-    
-    const correct = recentAnswers.filter(answer => Number(answer.isCorrect) > 0).length;
-    return Math.round((correct / recentAnswers.length) * 100);
-  };
-
-  const getStudyStreak = () => {
-    if (studySessions.length === 0) return 0;
+    if (userAnswers.length === 0) return 0;
     
-    let streak = 0;
-    const today = new Date();
-    
-    for (let i = 0; i < studySessions.length; i++) {
-      const sessionDate = new Date(studySessions[i].sessionDate);
-      const daysDiff = Math.floor((today.getTime() - sessionDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (daysDiff === streak) {
-        streak++;
-      } else {
-        break;
-      }
-    }
-    
-    return streak;
+    const correct = userAnswers.filter(answer => Number(answer.isCorrect) > 0).length;
+    return Math.round((correct / userAnswers.length) * 100);
   };
 
   if (loading) {
@@ -227,11 +154,12 @@ export default function Stats() {
     );
   }
 
-  const progressLevel = getProgressLevel();
+  const streak = getStreakStatus(user);
   const recentPerformance = getRecentPerformance();
-  const overallAccuracy = user.totalQuestionsAnswered > 0 
-    ? Math.round((user.correctAnswers / user.totalQuestionsAnswered) * 100) 
-    : 0;
+  // Leaves out answers to questions retired since, unlike the running totals on the user row
+  const accuracy = overallAccuracy(categoryStats);
+  const examPace = Math.round(EXAM_SECONDS_PER_QUESTION);
+  const onPace = averageSeconds !== null && averageSeconds <= examPace;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -244,7 +172,7 @@ export default function Stats() {
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-        {/* Progress Level Card */}
+        {/* Exam Readiness */}
         <LinearGradient
           colors={['#2563EB', '#3B82F6']}
           style={styles.levelCard}
@@ -252,28 +180,88 @@ export default function Stats() {
           <View style={styles.levelHeader}>
             <Award size={32} color="#F59E0B" />
             <View style={styles.levelInfo}>
-              <Text style={styles.levelTitle}>{progressLevel.level}</Text>
+              <Text style={styles.levelTitle}>
+                {readiness?.band ? READINESS_BAND_LABELS[readiness.band] : 'Not Rated Yet'}
+              </Text>
               <Text style={styles.levelSubtitle}>
-                {user.totalQuestionsAnswered} questions answered
+                {readiness?.passProbability != null
+                  ? `Estimated pass chance: ${Math.round(readiness.passProbability * 100)}%`
+                  : 'Answer a few questions in each domain to get a readiness estimate'}
               </Text>
             </View>
           </View>
-          
-          <View style={styles.progressContainer}>
-            <View style={styles.progressBar}>
-              <View style={[styles.progressFill, { width: `${progressLevel.progress}%` }]} />
+
+          {readiness?.score != null && (
+            <View style={styles.progressContainer}>
+              <View style={styles.progressBar}>
+                <View style={[styles.progressFill, { width: `${readiness.score}%` }]} />
+              </View>
+              <Text style={styles.progressText}>
+                Readiness score: {readiness.score}/100 · Target is 70
+              </Text>
             </View>
-            <Text style={styles.progressText}>
-              Progress to {progressLevel.nextLevel}: {Math.round(progressLevel.progress)}%
+          )}
+        </LinearGradient>
+
+        {/* Readiness by Domain */}
+        {readiness && (
+          <View style={styles.categoryCard}>
+            <Text style={styles.categoryTitle}>Readiness by Domain</Text>
+            <Text style={styles.categorySubtitle}>
+              Weighted like the exam, favoring recent and harder questions
             </Text>
+
+            {readiness.domains.map(domain => (
+              <View key={domain.domain} style={styles.domainRow}>
+                <View style={styles.domainInfo}>
+                  <Text style={styles.categoryName}>{domain.domain}</Text>
+                  <Text style={styles.categoryStats}>
+                    {Math.round(domain.weight * 100)}% of exam · {domain.answered} answered
+                  </Text>
+                </View>
+                <View style={[
+                  styles.bandBadge,
+                  { backgroundColor: domain.band ? READINESS_BAND_COLORS[domain.band] : '#CBD5E1' }
+                ]}>
+                  <Text style={styles.bandText}>
+                    {domain.band ? READINESS_BAND_LABELS[domain.band] : 'Not enough data'}
+                  </Text>
+                </View>
+              </View>
+            ))}
+
+            {readiness.trend.length > 1 && (
+              <>
+                <Text style={styles.trendTitle}>Trend (last {readiness.trend.length} weeks)</Text>
+                <View style={styles.trendChart}>
+                  {readiness.trend.map(point => (
+                    <View key={point.weekEnding} style={styles.trendColumn}>
+                      <Text style={styles.trendValue}>{point.score}</Text>
+                      <View style={styles.trendTrack}>
+                        <View style={[
+                          styles.trendBar,
+                          {
+                            height: `${point.score}%`,
+                            backgroundColor: READINESS_BAND_COLORS[getReadinessBand(point.score)]
+                          }
+                        ]} />
+                      </View>
+                      <Text style={styles.trendLabel}>
+                        {point.weekEnding.split('-').slice(1).map(Number).join('/')}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
           </View>
-        </LinearGradient>
+        )}
 
         {/* Key Metrics */}
         <View style={styles.metricsContainer}>
           <View style={styles.metricCard}>
-            <Target size={24} color={getAccuracyColor(overallAccuracy)} />
-            <Text style={styles.metricNumber}>{overallAccuracy}%</Text>
+            <Target size={24} color={getAccuracyColor(accuracy)} />
+            <Text style={styles.metricNumber}>{accuracy}%</Text>
             <Text style={styles.metricLabel}>Overall Accuracy</Text>
           </View>
           
@@ -285,11 +273,38 @@ export default function Stats() {
           
           <View style={styles.metricCard}>
             <Calendar size={24} color="#2563EB" />
-            <Text style={styles.metricNumber}>{user.currentStreak}</Text>
+            <Text style={styles.metricNumber}>{streak.currentStreak}</Text>
             <Text style={styles.metricLabel}>Current Streak</Text>
           </View>
         </View>
 
+        {/* Pacing */}
+        {averageSeconds !== null && (
+          <View style={styles.categoryCard}>
+            <Text style={styles.categoryTitle}>Pacing</Text>
+            <Text style={styles.categorySubtitle}>Average time per question vs. the real exam</Text>
+
+            <View style={styles.paceRow}>
+              <View style={styles.paceItem}>
+                <Clock size={20} color={onPace ? '#10B981' : '#EF4444'} />
+                <Text style={styles.paceNumber}>{averageSeconds}s</Text>
+                <Text style={styles.metricLabel}>Your Average</Text>
+              </View>
+              <View style={styles.paceItem}>
+                <Target size={20} color="#2563EB" />
+                <Text style={styles.paceNumber}>{examPace}s</Text>
+                <Text style={styles.metricLabel}>Exam Pace</Text>
+              </View>
+            </View>
+
+            <Text style={[styles.paceMessage, { color: onPace ? '#10B981' : '#EF4444' }]}>
+              {onPace
+                ? `${examPace - averageSeconds}s per question under exam pace`
+                : `${averageSeconds - examPace}s per question over exam pace`}
+            </Text>
+          </View>
+        )}
+
         {/* Category Performance */}
         {categoryStats.length > 0 && (
           <View style={styles.categoryCard}>
@@ -326,14 +341,32 @@ export default function Stats() {
           </View>
         )}
 
+        {/* Mastery Heatmap */}
+        {heatmap && heatmap.domains.length > 0 && (
+          <View style={styles.categoryCard}>
+            <Text style={styles.categoryTitle}>Mastery Over Time</Text>
+            <Text style={styles.categorySubtitle}>
+              Week by week for each domain and task, discounted while there are few answers · tap a task for details
+            </Text>
+            <MasteryHeatmap
+              heatmap={heatmap}
+              onSelectArea={(domain, area) => router.push({ pathname: '/area', params: { domain, area } })}
+            />
+          </View>
+        )}
+
         {/* Recent Activity */}
         {studySessions.length > 0 && (
           <View style={styles.activityCard}>
             <Text style={styles.activityTitle}>Recent Study Sessions</Text>
-            <Text style={styles.activitySubtitle}>Your last 7 study sessions</Text>
+            <Text style={styles.activitySubtitle}>Your last 7 study sessions · tap one to review it</Text>
             
             {studySessions.slice(0, 7).map((session, index) => (
-              <View key={session.id} style={styles.sessionItem}>
+              <TouchableOpacity
+                key={session.id}
+                style={styles.sessionItem}
+                onPress={() => router.push({ pathname: '/review', params: { sessionId: session.id } })}
+              >
                 <View style={styles.sessionDate}>
                   <Calendar size={16} color="#64748B" />
                   <Text style={styles.sessionDateText}>
@@ -342,6 +375,11 @@ export default function Stats() {
                       day: 'numeric'
                     })}
                   </Text>
+                  {session.sessionType !== 'practice' && (
+                    <View style={styles.sessionTypeBadge}>
+                      <Text style={styles.sessionTypeText}>{SESSION_TYPE_LABELS[session.sessionType]}</Text>
+                    </View>
+                  )}
                 </View>
                 
                 <View style={styles.sessionMetrics}>
@@ -359,12 +397,12 @@ export default function Stats() {
                   
                   <Text style={[
                     styles.sessionAccuracy,
-                    { color: getAccuracyColor(Math.round((session.correctAnswers / session.questionsAnswered) * 100)) }
+                    { color: getAccuracyColor(Math.round((session.correctAnswers / countSessionQuestions(session)) * 100)) }
                   ]}>
-                    {Math.round((session.correctAnswers / session.questionsAnswered) * 100)}%
+                    {Math.round((session.correctAnswers / countSessionQuestions(session)) * 100)}%
                   </Text>
                 </View>
-              </View>
+              </TouchableOpacity>
             ))}
           </View>
         )}
@@ -378,10 +416,10 @@ export default function Stats() {
               <BookOpen size={20} color="#2563EB" />
               <Text style={styles.goalName}>Daily Practice</Text>
               <Text style={styles.goalStatus}>
-                {user.lastStudyDate === new Date().toISOString().split('T')[0] ? '✅' : '⏳'}
+                {streak.studiedToday ? '✅' : '⏳'}
               </Text>
             </View>
-            <Text style={styles.goalDescription}>Answer 5 questions daily</Text>
+            <Text style={styles.goalDescription}>{describeDailyGoal(getDailyGoal(user))} every day</Text>
           </View>
           
           <View style={styles.goalItem}>
@@ -389,7 +427,7 @@ export default function Stats() {
               <Target size={20} color="#10B981" />
               <Text style={styles.goalName}>Accuracy Target</Text>
               <Text style={styles.goalStatus}>
-                {overallAccuracy >= 80 ? '✅' : overallAccuracy >= 60 ? '🟡' : '🔴'}
+                {accuracy >= 80 ? '✅' : accuracy >= 60 ? '🟡' : '🔴'}
               </Text>
             </View>
             <Text style={styles.goalDescription}>Maintain 80% accuracy</Text>
@@ -400,7 +438,7 @@ export default function Stats() {
               <Award size={20} color="#F59E0B" />
               <Text style={styles.goalName}>Streak Master</Text>
               <Text style={styles.goalStatus}>
-                {user.currentStreak >= 7 ? '✅' : user.currentStreak >= 3 ? '🟡' : '⏳'}
+                {streak.currentStreak >= 7 ? '✅' : streak.currentStreak >= 3 ? '🟡' : '⏳'}
               </Text>
             </View>
             <Text style={styles.goalDescription}>Build a 7-day streak</Text>
@@ -511,6 +549,66 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: 'rgba(255, 255, 255, 0.9)',
   },
+  domainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  domainInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  bandBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  bandText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'white',
+  },
+  trendTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  trendChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  trendColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  trendValue: {
+    fontSize: 10,
+    color: '#64748B',
+    marginBottom: 4,
+  },
+  trendTrack: {
+    width: '100%',
+    height: 80,
+    justifyContent: 'flex-end',
+    backgroundColor: '#F1F5F9',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  trendBar: {
+    width: '100%',
+    borderRadius: 4,
+  },
+  trendLabel: {
+    fontSize: 10,
+    color: '#94A3B8',
+    marginTop: 4,
+  },
   metricsContainer: {
     flexDirection: 'row',
     paddingHorizontal: 20,
@@ -564,6 +662,30 @@ const styles = StyleSheet.create({
     color: '#64748B',
     marginBottom: 16,
   },
+  paceRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  paceItem: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F8FAFC',
+  },
+  paceNumber: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  paceMessage: {
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
   categoryItem: {
     marginBottom: 16,
   },
@@ -644,6 +766,18 @@ const styles = StyleSheet.create({
     color: '#64748B',
     marginLeft: 6,
   },
+  sessionTypeBadge: {
+    backgroundColor: '#EEF2FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  sessionTypeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
   sessionMetrics: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,32 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { ArrowLeft, Flame, Calendar, Award, Target, TrendingUp } from 'lucide-react-native';
+import { ArrowLeft, Flame, Calendar, Award, Target, TrendingUp, Snowflake } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { blink } from '@/lib/blink';
-
-interface User {
-  id: string;
-  email: string;
-  displayName: string;
-  currentStreak: number;
-  longestStreak: number;
-  lastStudyDate: string;
-  totalQuestionsAnswered: number;
-  correctAnswers: number;
-}
-
-interface StudySession {
-  id: string;
-  userId: string;
-  sessionDate: string;
-  questionsAnswered: number;
-  correctAnswers: number;
-  sessionDuration: number;
-}
+import { AuthUser, loadUserProfile, sessionsRepository } from '@/lib/repository';
+import { StudySession, User } from '@/lib/schema';
+import { FREEZE_EARN_DAYS, MAX_STREAK_FREEZES, addDays, getStreakStatus, localDateKey } from '@/lib/streak';
+import { countSessionQuestions } from '@/lib/sessions';
+import { describeDailyGoal, getDailyGoal } from '@/lib/dailyGoal';
+import { Preferences, daysUntilExam, describeExamCountdown, loadPreferences } from '@/lib/preferences';
 
 export default function Streak() {
   const [user, setUser] = useState<User | null>(null);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
   const [studySessions, setStudySessions] = useState<StudySession[]>([]);
   const [loading, setLoading] = useState(true);
   const [calendarDays, setCalendarDays] = useState<any[]>([]);
@@ -35,7 +22,7 @@ export default function Streak() {
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
       if (state.user) {
-        await loadUserData(state.user.id);
+        await loadUserData(state.user);
         await loadStudySessions(state.user.id);
       }
       setLoading(state.isLoading);
@@ -43,28 +30,14 @@ export default function Streak() {
     return unsubscribe;
   }, []);
 
-  const loadUserData = async (userId: string) => {
+  const loadUserData = async (authUser: AuthUser) => {
     try {
-      const existingUsers = await blink.db.users.list({
-        where: { id: userId },
-        limit: 1
-      });
-
-      if (existingUsers.length > 0) {
-        const dbUser = existingUsers[0];
-        const authUser = await blink.auth.me();
-        
-        setUser({
-          id: userId,
-          email: authUser.email,
-          displayName: dbUser.displayName || authUser.displayName || authUser.email.split('@')[0],
-          currentStreak: dbUser.currentStreak || 0,
-          longestStreak: dbUser.longestStreak || 0,
-          lastStudyDate: dbUser.lastStudyDate || '',
-          totalQuestionsAnswered: dbUser.totalQuestionsAnswered || 0,
-          correctAnswers: dbUser.correctAnswers || 0
-        });
-      }
+      const [profile, loadedPreferences] = await Promise.all([
+        loadUserProfile(authUser),
+        loadPreferences(authUser.id)
+      ]);
+      setUser(profile);
+      setPreferences(loadedPreferences);
     } catch (error) {
       console.error('Error loading user data:', error);
     }
@@ -72,7 +45,7 @@ export default function Streak() {
 
   const loadStudySessions = async (userId: string) => {
     try {
-      const sessions = await blink.db.studySessions.list({
+      const sessions = await sessionsRepository.list({
         where: { userId },
         orderBy: { sessionDate: 'desc' },
         limit: 30 // Last 30 days
@@ -86,23 +59,21 @@ export default function Streak() {
   };
 
   const generateCalendarDays = (sessions: StudySession[]) => {
-    const today = new Date();
+    const today = localDateKey();
     const days = [];
     const sessionDates = new Set(sessions.map(s => s.sessionDate));
 
     // Generate last 30 days
     for (let i = 29; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = addDays(today, -i);
       
       const session = sessions.find(s => s.sessionDate === dateStr);
       
       days.push({
         date: dateStr,
-        day: date.getDate(),
+        day: Number(dateStr.split('-')[2]),
         hasStudied: sessionDates.has(dateStr),
-        isToday: dateStr === today.toISOString().split('T')[0],
+        isToday: dateStr === today,
         session: session || null
       });
     }
@@ -120,25 +91,28 @@ export default function Streak() {
 
   const getStreakMessage = () => {
     if (!user) return '';
+    const { currentStreak, atRisk, freezesNeeded } = getStreakStatus(user);
     
-    if (user.currentStreak === 0) {
+    if (atRisk) {
+      return `Study today to keep your streak — ${freezesNeeded} ${freezesNeeded === 1 ? 'freeze' : 'freezes'} will cover the gap ❄️`;
+    } else if (currentStreak === 0) {
       return "Start your streak today! 🚀";
-    } else if (user.currentStreak === 1) {
+    } else if (currentStreak === 1) {
       return "Great start! Keep it going! 💪";
-    } else if (user.currentStreak < 7) {
-      return `${user.currentStreak} days strong! 🔥`;
-    } else if (user.currentStreak < 14) {
-      return `Amazing ${user.currentStreak}-day streak! ⭐`;
-    } else if (user.currentStreak < 30) {
-      return `Incredible ${user.currentStreak}-day streak! 🏆`;
+    } else if (currentStreak < 7) {
+      return `${currentStreak} days strong! 🔥`;
+    } else if (currentStreak < 14) {
+      return `Amazing ${currentStreak}-day streak! ⭐`;
+    } else if (currentStreak < 30) {
+      return `Incredible ${currentStreak}-day streak! 🏆`;
     } else {
-      return `Legendary ${user.currentStreak}-day streak! 👑`;
+      return `Legendary ${currentStreak}-day streak! 👑`;
     }
   };
 
   const getMotivationalTip = () => {
     const tips = [
-      "Study for just 10 minutes daily to maintain your streak!",
+      `${describeDailyGoal(getDailyGoal(user))} every day to maintain your streak!`,
       "Consistency beats intensity. Small daily efforts compound!",
       "Each question you answer brings you closer to PMP success!",
       "Your future self will thank you for today's effort!",
@@ -175,6 +149,9 @@ export default function Streak() {
     );
   }
 
+  const { currentStreak } = getStreakStatus(user);
+  const examCountdown = preferences && describeExamCountdown(daysUntilExam(preferences));
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -194,13 +171,13 @@ export default function Streak() {
           <View style={styles.streakHeader}>
             <Flame 
               size={40} 
-              color={getStreakColor(user.currentStreak)} 
-              fill={user.currentStreak > 0 ? getStreakColor(user.currentStreak) : 'transparent'}
+              color={getStreakColor(currentStreak)} 
+              fill={currentStreak > 0 ? getStreakColor(currentStreak) : 'transparent'}
             />
             <View style={styles.streakInfo}>
-              <Text style={styles.streakNumber}>{user.currentStreak}</Text>
+              <Text style={styles.streakNumber}>{currentStreak}</Text>
               <Text style={styles.streakLabel}>
-                {user.currentStreak === 1 ? 'Day Streak' : 'Days Streak'}
+                {currentStreak === 1 ? 'Day Streak' : 'Days Streak'}
               </Text>
             </View>
           </View>
@@ -215,6 +192,20 @@ export default function Streak() {
               </Text>
             </View>
           )}
+
+          <View style={[styles.bestStreak, styles.freezeRow]}>
+            <Snowflake size={16} color="rgba(255, 255, 255, 0.8)" />
+            <Text style={styles.bestStreakText}>
+              Streak freezes: {user.streakFreezes}/{MAX_STREAK_FREEZES} · earn one every {FREEZE_EARN_DAYS} days
+            </Text>
+          </View>
+
+          {examCountdown && (
+            <View style={[styles.bestStreak, styles.freezeRow]}>
+              <Calendar size={16} color="rgba(255, 255, 255, 0.8)" />
+              <Text style={styles.bestStreakText}>{examCountdown}</Text>
+            </View>
+          )}
         </LinearGradient>
 
         {/* Stats Cards */}
@@ -237,7 +228,7 @@ export default function Streak() {
           
           <View style={styles.statCard}>
             <Calendar size={24} color="#F59E0B" />
-            <Text style={styles.statNumber}>{studySessions.length}</Text>
+            <Text style={styles.statNumber}>{new Set(studySessions.map(s => s.sessionDate)).size}</Text>
             <Text style={styles.statLabel}>Study Days</Text>
           </View>
         </View>
@@ -289,6 +280,9 @@ export default function Streak() {
         <View style={styles.motivationCard}>
           <Text style={styles.motivationTitle}>💡 Daily Tip</Text>
           <Text style={styles.motivationText}>{getMotivationalTip()}</Text>
+          <TouchableOpacity onPress={() => router.push('/settings')}>
+            <Text style={styles.motivationLink}>Set up streak reminders →</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Recent Sessions */}
@@ -305,10 +299,10 @@ export default function Streak() {
                 </View>
                 <View style={styles.sessionStats}>
                   <Text style={styles.sessionStatsText}>
-                    {session.correctAnswers}/{session.questionsAnswered} correct
+                    {session.correctAnswers}/{countSessionQuestions(session)} correct
                   </Text>
                   <Text style={styles.sessionAccuracy}>
-                    {Math.round((session.correctAnswers / session.questionsAnswered) * 100)}%
+                    {Math.round((session.correctAnswers / countSessionQuestions(session)) * 100)}%
                   </Text>
                 </View>
               </View>
@@ -415,6 +409,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  freezeRow: {
+    marginTop: 8,
+  },
   bestStreakText: {
     fontSize: 14,
     color: 'rgba(255, 255, 255, 0.8)',
@@ -555,6 +552,12 @@ const styles = StyleSheet.create({
     color: '#78350F',
     lineHeight: 20,
   },
+  motivationLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B45309',
+    marginTop: 12,
+  },
   sessionsCard: {
     margin: 20,
     marginTop: 0,
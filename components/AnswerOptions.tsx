@@ -0,0 +1,156 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle, TextStyle } from 'react-native';
+import { CheckCircle, XCircle } from 'lucide-react-native';
+import { Question } from '@/lib/questions';
+import { getChoiceOptions, getQuestionType, requiredSelections, splitKeys } from '@/lib/questionTypes';
+
+interface AnswerOptionsProps {
+  question: Question;
+  selectedAnswer: string | null;
+  onSelect: (answer: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+// Single choice and multiple response; the latter toggles letters in and out
+// of a comma-separated answer
+export function AnswerOptions({ question, selectedAnswer, onSelect, showResult = false, disabled = false }: AnswerOptionsProps) {
+  const isMultiple = getQuestionType(question) === 'multiple';
+  const selectedKeys = splitKeys(selectedAnswer);
+  const correctKeys = splitKeys(question.correctAnswer);
+
+  const handlePress = (key: string) => {
+    if (!isMultiple) {
+      onSelect(key);
+      return;
+    }
+    const next = selectedKeys.includes(key)
+      ? selectedKeys.filter(selected => selected !== key)
+      : [...selectedKeys, key];
+    onSelect(next.sort().join(','));
+  };
+
+  return (
+    <View style={styles.optionsContainer}>
+      {isMultiple && (
+        <Text style={styles.hintText}>Select {requiredSelections(question)}</Text>
+      )}
+      {getChoiceOptions(question).map((option) => {
+        const isSelected = selectedKeys.includes(option.key);
+        const isCorrect = correctKeys.includes(option.key);
+
+        const optionStyle: StyleProp<ViewStyle>[] = [styles.optionButton];
+        const textStyle: StyleProp<TextStyle>[] = [styles.optionText];
+
+        if (showResult) {
+          if (isCorrect) {
+            optionStyle.push(styles.correctOption);
+            textStyle.push(styles.correctOptionText);
+          } else if (isSelected && !isCorrect) {
+            optionStyle.push(styles.incorrectOption);
+            textStyle.push(styles.incorrectOptionText);
+          }
+        } else if (isSelected) {
+          optionStyle.push(styles.selectedOption);
+          textStyle.push(styles.selectedOptionText);
+        }
+
+        return (
+          <TouchableOpacity
+            key={option.key}
+            style={optionStyle}
+            onPress={() => handlePress(option.key)}
+            disabled={disabled || showResult}
+          >
+            <View style={styles.optionContent}>
+              <View style={[styles.optionLetter, isMultiple && styles.optionCheckbox]}>
+                <Text style={[styles.optionLetterText, textStyle]}>{option.key}</Text>
+              </View>
+              <Text style={textStyle}>{option.text}</Text>
+              {showResult && isCorrect && (
+                <CheckCircle size={20} color="#10B981" />
+              )}
+              {showResult && isSelected && !isCorrect && (
+                <XCircle size={20} color="#EF4444" />
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  optionsContainer: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  optionButton: {
+    backgroundColor: 'white',
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  selectedOption: {
+    borderColor: '#2563EB',
+    backgroundColor: '#EEF2FF',
+  },
+  correctOption: {
+    borderColor: '#10B981',
+    backgroundColor: '#ECFDF5',
+  },
+  incorrectOption: {
+    borderColor: '#EF4444',
+    backgroundColor: '#FEF2F2',
+  },
+  optionContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  optionLetter: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  optionCheckbox: {
+    borderRadius: 6,
+  },
+  hintText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  optionLetterText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1E293B',
+    lineHeight: 22,
+  },
+  selectedOptionText: {
+    color: '#2563EB',
+  },
+  correctOptionText: {
+    color: '#10B981',
+  },
+  incorrectOptionText: {
+    color: '#EF4444',
+  },
+});
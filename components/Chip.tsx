@@ -0,0 +1,45 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+export function Chip({ label, selected, onPress, disabled = false }: ChipProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.selectedChip]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.chipText, selected && styles.selectedChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: 'white',
+  },
+  selectedChip: {
+    borderColor: '#2563EB',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#475569',
+  },
+  selectedChipText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+});
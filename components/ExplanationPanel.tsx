@@ -0,0 +1,168 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { BookMarked, CheckCircle, StickyNote, XCircle } from 'lucide-react-native';
+import { Question } from '@/lib/questions';
+import { formatReference, getOptionRationales, getReferences } from '@/lib/explanations';
+
+interface ExplanationPanelProps {
+  question: Question;
+  selectedAnswer: string | null | undefined;
+  note?: string | null; // the user's own note on the question
+  style?: StyleProp<ViewStyle>;
+}
+
+// Why each option is right or wrong, with the user's pick called out; falls
+// back to the single general explanation on questions without rationales
+export function ExplanationPanel({ question, selectedAnswer, note, style }: ExplanationPanelProps) {
+  const rationales = getOptionRationales(question, selectedAnswer);
+  const references = getReferences(question);
+
+  return (
+    <View style={[styles.explanationCard, style]}>
+      <Text style={styles.explanationTitle}>Explanation</Text>
+      {!!question.explanation && (
+        <Text style={styles.explanationText}>{question.explanation}</Text>
+      )}
+
+      {rationales.map(option => (
+        <View
+          key={option.key}
+          style={[
+            styles.rationaleRow,
+            option.isCorrect && styles.correctRow,
+            option.isSelected && !option.isCorrect && styles.incorrectRow
+          ]}
+        >
+          <View style={styles.rationaleHeader}>
+            {option.isCorrect ? (
+              <CheckCircle size={16} color="#10B981" />
+            ) : (
+              <XCircle size={16} color={option.isSelected ? '#EF4444' : '#94A3B8'} />
+            )}
+            <Text style={styles.optionText}>
+              {option.key}. {option.text}
+            </Text>
+            {option.isSelected && <Text style={styles.selectedTag}>Your answer</Text>}
+          </View>
+          {!!option.rationale && <Text style={styles.rationaleText}>{option.rationale}</Text>}
+        </View>
+      ))}
+
+      {references.length > 0 && (
+        <View style={styles.references}>
+          {references.map((reference, index) => (
+            <View key={index} style={styles.referenceRow}>
+              <BookMarked size={14} color="#64748B" />
+              <Text style={styles.referenceText}>{formatReference(reference)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!!note && (
+        <View style={styles.noteBox}>
+          <View style={styles.referenceRow}>
+            <StickyNote size={14} color="#B45309" />
+            <Text style={styles.noteTitle}>My note</Text>
+          </View>
+          <Text style={styles.noteText}>{note}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  explanationCard: {
+    margin: 20,
+    marginTop: 0,
+    backgroundColor: '#F8FAFC',
+    padding: 20,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#2563EB',
+  },
+  explanationTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 8,
+  },
+  explanationText: {
+    fontSize: 15,
+    color: '#475569',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  rationaleRow: {
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  correctRow: {
+    borderColor: '#10B981',
+    backgroundColor: '#ECFDF5',
+  },
+  incorrectRow: {
+    borderColor: '#EF4444',
+    backgroundColor: '#FEF2F2',
+  },
+  rationaleHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+  selectedTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  rationaleText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginTop: 6,
+    marginLeft: 24,
+  },
+  references: {
+    marginTop: 12,
+    gap: 6,
+  },
+  referenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  referenceText: {
+    fontSize: 13,
+    color: '#64748B',
+    fontStyle: 'italic',
+  },
+  noteBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFFBEB',
+  },
+  noteTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#1E293B',
+    lineHeight: 20,
+    marginTop: 4,
+  },
+});
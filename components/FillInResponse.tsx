@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import { CheckCircle, XCircle } from 'lucide-react-native';
+import { Question } from '@/lib/questions';
+import { FillInPayload, formatResponse, gradeResponse, parsePayload } from '@/lib/questionTypes';
+
+interface FillInResponseProps {
+  question: Question;
+  response: string | null;
+  onChange: (response: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+export function FillInResponse({ question, response, onChange, showResult = false, disabled = false }: FillInResponseProps) {
+  const { unit } = parsePayload<FillInPayload>(question);
+  const isCorrect = gradeResponse(question, response) === 1;
+
+  return (
+    <View style={styles.container}>
+      <View style={[
+        styles.inputRow,
+        showResult && (isCorrect ? styles.correctInput : styles.incorrectInput)
+      ]}>
+        <TextInput
+          style={styles.input}
+          value={response ?? ''}
+          onChangeText={onChange}
+          editable={!disabled && !showResult}
+          placeholder="Your answer"
+          placeholderTextColor="#94A3B8"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {unit && <Text style={styles.unitText}>{unit}</Text>}
+        {showResult && (isCorrect
+          ? <CheckCircle size={20} color="#10B981" />
+          : <XCircle size={20} color="#EF4444" />)}
+      </View>
+      {showResult && !isCorrect && (
+        <Text style={styles.correctText}>Correct: {formatResponse(question, question.correctAnswer)}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 16,
+  },
+  correctInput: {
+    borderColor: '#10B981',
+    backgroundColor: '#ECFDF5',
+  },
+  incorrectInput: {
+    borderColor: '#EF4444',
+    backgroundColor: '#FEF2F2',
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1E293B',
+    paddingVertical: 16,
+  },
+  unitText: {
+    fontSize: 16,
+    color: '#64748B',
+    marginHorizontal: 8,
+  },
+  correctText: {
+    fontSize: 14,
+    color: '#10B981',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, StyleProp, ViewStyle } from 'react-native';
+import { Question } from '@/lib/questions';
+import { HotspotPayload, parsePayload, splitKeys } from '@/lib/questionTypes';
+
+interface HotspotResponseProps {
+  question: Question;
+  response: string | null;
+  onChange: (response: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+// Tappable regions laid over the image, positioned in percentages so they
+// line up at any width
+export function HotspotResponse({ question, response, onChange, showResult = false, disabled = false }: HotspotResponseProps) {
+  const { imageUrl, aspectRatio = 4 / 3, regions = [] } = parsePayload<HotspotPayload>(question);
+  const correctIds = splitKeys(question.correctAnswer);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hintText}>Tap the correct area of the image</Text>
+      <View style={[styles.imageFrame, { aspectRatio }]}>
+        {imageUrl && <Image source={{ uri: imageUrl }} style={styles.image} resizeMode="contain" />}
+        {regions.map(region => {
+          const isSelected = response === region.id;
+          const isCorrect = correctIds.includes(region.id);
+
+          const regionStyle: StyleProp<ViewStyle>[] = [styles.region, {
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }];
+          if (showResult && isCorrect) regionStyle.push(styles.correctRegion);
+          else if (showResult && isSelected) regionStyle.push(styles.incorrectRegion);
+          else if (isSelected) regionStyle.push(styles.selectedRegion);
+
+          return (
+            <TouchableOpacity
+              key={region.id}
+              style={regionStyle}
+              onPress={() => onChange(isSelected ? '' : region.id)}
+              disabled={disabled || showResult}
+              accessibilityLabel={region.label || region.id}
+            />
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  imageFrame: {
+    width: '100%',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  region: {
+    position: 'absolute',
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedRegion: {
+    borderColor: '#2563EB',
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  correctRegion: {
+    borderColor: '#10B981',
+    backgroundColor: 'rgba(16, 185, 129, 0.2)',
+  },
+  incorrectRegion: {
+    borderColor: '#EF4444',
+    backgroundColor: 'rgba(239, 68, 68, 0.2)',
+  },
+});
@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MASTERY_BANDS, MasteryGrid, MasteryRow, NO_DATA_COLOR, masteryColor } from '@/lib/mastery';
+
+interface MasteryHeatmapProps {
+  heatmap: MasteryGrid;
+  onSelectArea: (domain: string, knowledgeArea: string) => void;
+}
+
+const formatWeek = (weekStart: string) => {
+  const [, month, day] = weekStart.split('-').map(Number);
+  return `${month}/${day}`;
+};
+
+function HeatmapRow({ row, isDomain, onPress }: { row: MasteryRow; isDomain: boolean; onPress?: () => void }) {
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} disabled={!onPress}>
+      <Text style={[styles.rowLabel, isDomain && styles.domainLabel]} numberOfLines={1}>
+        {row.name}
+      </Text>
+      {row.cells.map(cell => (
+        <View key={cell.weekStart} style={[styles.cell, { backgroundColor: masteryColor(cell.mastery) }]}>
+          {cell.answered > 0 && <View style={styles.activityDot} />}
+        </View>
+      ))}
+    </TouchableOpacity>
+  );
+}
+
+// Domains and their tasks down the side, weeks across (oldest first); a dot
+// marks weeks with answers in that area
+export function MasteryHeatmap({ heatmap, onSelectArea }: MasteryHeatmapProps) {
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.rowLabel} />
+        {heatmap.weeks.map((week, index) => (
+          <Text key={week} style={styles.weekLabel}>
+            {(heatmap.weeks.length - 1 - index) % 2 === 0 ? formatWeek(week) : ''}
+          </Text>
+        ))}
+      </View>
+
+      {heatmap.domains.map(domain => (
+        <View key={domain.name} style={styles.domainGroup}>
+          <HeatmapRow row={domain} isDomain />
+          {domain.areas.map(area => (
+            <HeatmapRow key={area.name} row={area} isDomain={false} onPress={() => onSelectArea(domain.name, area.name)} />
+          ))}
+        </View>
+      ))}
+
+      <View style={styles.legend}>
+        {[...MASTERY_BANDS].reverse().map(band => (
+          <View key={band.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: band.color }]} />
+            <Text style={styles.legendText}>{band.label}</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: NO_DATA_COLOR }]} />
+          <Text style={styles.legendText}>No answers</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginBottom: 3,
+  },
+  rowLabel: {
+    width: 110,
+    fontSize: 12,
+    color: '#475569',
+  },
+  domainLabel: {
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  weekLabel: {
+    flex: 1,
+    fontSize: 10,
+    color: '#94A3B8',
+    textAlign: 'center',
+  },
+  domainGroup: {
+    marginTop: 8,
+  },
+  cell: {
+    flex: 1,
+    height: 22,
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  activityDot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(30, 41, 59, 0.4)',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#64748B',
+  },
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CheckCircle, XCircle } from 'lucide-react-native';
+import { Question } from '@/lib/questions';
+import { MatchingPayload, parsePayload } from '@/lib/questionTypes';
+import { Chip } from '@/components/Chip';
+
+interface MatchingResponseProps {
+  question: Question;
+  response: string | null;
+  onChange: (response: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+// One row of choices per prompt; the response lists the chosen choice index
+// for each prompt in order, with blanks for prompts not matched yet
+export function MatchingResponse({ question, response, onChange, showResult = false, disabled = false }: MatchingResponseProps) {
+  const { prompts = [], choices = [] } = parsePayload<MatchingPayload>(question);
+  const picks = prompts.map((_, index) => (response ?? '').split(',')[index]?.trim() ?? '');
+  const correct = question.correctAnswer.split(',').map(value => value.trim());
+
+  const pick = (promptIndex: number, choiceIndex: number) => {
+    const next = [...picks];
+    next[promptIndex] = next[promptIndex] === String(choiceIndex) ? '' : String(choiceIndex);
+    onChange(next.some(Boolean) ? next.join(',') : '');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hintText}>Match each item to one option</Text>
+      {prompts.map((prompt, promptIndex) => {
+        const isCorrect = picks[promptIndex] === correct[promptIndex];
+        return (
+          <View key={promptIndex} style={styles.promptCard}>
+            <View style={styles.promptHeader}>
+              <Text style={styles.promptText}>{prompt}</Text>
+              {showResult && (isCorrect
+                ? <CheckCircle size={20} color="#10B981" />
+                : <XCircle size={20} color="#EF4444" />)}
+            </View>
+            <View style={styles.choiceRow}>
+              {choices.map((choice, choiceIndex) => (
+                <Chip
+                  key={choiceIndex}
+                  label={choice}
+                  selected={picks[promptIndex] === String(choiceIndex)}
+                  onPress={() => pick(promptIndex, choiceIndex)}
+                  disabled={disabled || showResult}
+                />
+              ))}
+            </View>
+            {showResult && !isCorrect && (
+              <Text style={styles.correctText}>Correct: {choices[Number(correct[promptIndex])]}</Text>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  promptCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+  },
+  promptHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  promptText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1E293B',
+    lineHeight: 22,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  correctText: {
+    fontSize: 14,
+    color: '#10B981',
+    marginTop: 8,
+  },
+});
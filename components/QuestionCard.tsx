@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BookOpen } from 'lucide-react-native';
+import { Question } from '@/lib/questions';
+
+interface QuestionCardProps {
+  question: Question;
+}
+
+export function QuestionCard({ question }: QuestionCardProps) {
+  return (
+    <View style={styles.questionCard}>
+      <View style={styles.categoryBadge}>
+        <Text style={styles.categoryText}>{question.category}</Text>
+      </View>
+
+      <Text style={styles.questionText}>{question.questionText}</Text>
+
+      <View style={styles.knowledgeArea}>
+        <BookOpen size={16} color="#64748B" />
+        <Text style={styles.knowledgeAreaText}>{question.knowledgeArea}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  questionCard: {
+    margin: 20,
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  categoryBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#EEF2FF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 16,
+  },
+  categoryText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  questionText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    lineHeight: 26,
+    marginBottom: 16,
+  },
+  knowledgeArea: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  knowledgeAreaText: {
+    fontSize: 14,
+    color: '#64748B',
+    marginLeft: 6,
+  },
+});
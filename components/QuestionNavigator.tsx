@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle, TextStyle } from 'react-native';
+import { Flag } from 'lucide-react-native';
+
+interface QuestionNavigatorProps {
+  questionIds: string[];
+  currentIndex: number;
+  answered: Record<string, unknown>;
+  flagged: Record<string, boolean>;
+  onSelect: (index: number) => void;
+  // Questions outside this range are shown but can't be opened (e.g. locked exam sections)
+  enabledRange?: { start: number; end: number };
+}
+
+export function QuestionNavigator({ questionIds, currentIndex, answered, flagged, onSelect, enabledRange }: QuestionNavigatorProps) {
+  const answeredCount = questionIds.filter(id => answered[id]).length;
+  const flaggedCount = questionIds.filter(id => flagged[id]).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>{answeredCount} answered</Text>
+        <Text style={styles.summaryText}>{questionIds.length - answeredCount} unanswered</Text>
+        <Text style={styles.summaryText}>{flaggedCount} flagged</Text>
+      </View>
+
+      <View style={styles.grid}>
+        {questionIds.map((id, index) => {
+          const enabled = !enabledRange || (index >= enabledRange.start && index < enabledRange.end);
+          const cellStyle: StyleProp<ViewStyle>[] = [styles.cell];
+          const textStyle: StyleProp<TextStyle>[] = [styles.cellText];
+
+          if (answered[id]) {
+            cellStyle.push(styles.answeredCell);
+            textStyle.push(styles.answeredCellText);
+          }
+          if (flagged[id]) {
+            cellStyle.push(styles.flaggedCell);
+          }
+          if (index === currentIndex) {
+            cellStyle.push(styles.currentCell);
+          }
+          if (!enabled) {
+            cellStyle.push(styles.lockedCell);
+          }
+
+          return (
+            <TouchableOpacity
+              key={id}
+              style={cellStyle}
+              onPress={() => onSelect(index)}
+              disabled={!enabled}
+            >
+              <Text style={textStyle}>{index + 1}</Text>
+              {flagged[id] && (
+                <View style={styles.flagIcon}>
+                  <Flag size={10} color="#F59E0B" fill="#F59E0B" />
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendDot, styles.answeredCell]} />
+          <Text style={styles.legendText}>Answered</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={styles.legendDot} />
+          <Text style={styles.legendText}>Unanswered</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendDot, styles.flaggedCell]} />
+          <Text style={styles.legendText}>Flagged</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#64748B',
+    fontWeight: '500',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cell: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#CBD5E1',
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  answeredCell: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  flaggedCell: {
+    borderColor: '#F59E0B',
+    borderWidth: 2,
+  },
+  currentCell: {
+    transform: [{ scale: 1.1 }],
+    shadowColor: '#2563EB',
+    shadowOpacity: 0.4,
+    shadowRadius: 4,
+    shadowOffset: { width: 0, height: 0 },
+    elevation: 3,
+  },
+  lockedCell: {
+    opacity: 0.35,
+  },
+  cellText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  answeredCellText: {
+    color: 'white',
+  },
+  flagIcon: {
+    position: 'absolute',
+    top: -5,
+    right: -5,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    borderWidth: 1,
+    borderColor: '#CBD5E1',
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+});
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, StyleProp, ViewStyle } from 'react-native';
+import { Bookmark, StickyNote } from 'lucide-react-native';
+import { QuestionBookmark, isBookmarked } from '@/lib/bookmarks';
+
+interface QuestionNotesProps {
+  bookmark: QuestionBookmark | null | undefined;
+  onToggleBookmark: () => void;
+  onSaveNote: (note: string) => void;
+  showNote?: boolean; // off where the explanation already shows it
+  style?: StyleProp<ViewStyle>;
+}
+
+export function QuestionNotes({ bookmark, onToggleBookmark, onSaveNote, showNote = true, style }: QuestionNotesProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const bookmarked = isBookmarked(bookmark);
+  const note = bookmark?.note ?? '';
+
+  const startEditing = () => {
+    setDraft(note);
+    setEditing(true);
+  };
+
+  const save = () => {
+    onSaveNote(draft);
+    setEditing(false);
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, bookmarked && styles.actionButtonActive]}
+          onPress={onToggleBookmark}
+        >
+          <Bookmark size={16} color="#2563EB" fill={bookmarked ? '#2563EB' : 'transparent'} />
+          <Text style={styles.actionText}>{bookmarked ? 'Bookmarked' : 'Bookmark'}</Text>
+        </TouchableOpacity>
+        {!editing && (
+          <TouchableOpacity style={styles.actionButton} onPress={startEditing}>
+            <StickyNote size={16} color="#B45309" />
+            <Text style={styles.actionText}>{note ? 'Edit note' : 'Add note'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {editing ? (
+        <View style={styles.editor}>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="What should you remember about this question?"
+            placeholderTextColor="#94A3B8"
+            multiline
+            autoFocus
+          />
+          <View style={styles.editorActions}>
+            <TouchableOpacity onPress={() => setEditing(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={save}>
+              <Text style={styles.saveText}>Save note</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        showNote && !!note && <Text style={styles.noteText}>{note}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    gap: 6,
+  },
+  actionButtonActive: {
+    backgroundColor: '#EFF6FF',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  editor: {
+    marginTop: 8,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    padding: 12,
+  },
+  input: {
+    minHeight: 60,
+    fontSize: 14,
+    color: '#1E293B',
+    textAlignVertical: 'top',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  saveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  noteText: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFFBEB',
+    fontSize: 14,
+    color: '#1E293B',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Question } from '@/lib/questions';
+import { getQuestionType } from '@/lib/questionTypes';
+import { AnswerOptions } from '@/components/AnswerOptions';
+import { MatchingResponse } from '@/components/MatchingResponse';
+import { HotspotResponse } from '@/components/HotspotResponse';
+import { FillInResponse } from '@/components/FillInResponse';
+
+interface QuestionResponseProps {
+  question: Question;
+  response: string | null;
+  onChange: (response: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+// Picks the input for the question's type; every input reports its response
+// as the serialized string described in lib/questionTypes
+export function QuestionResponse({ question, response, onChange, showResult, disabled }: QuestionResponseProps) {
+  switch (getQuestionType(question)) {
+    case 'matching':
+      return <MatchingResponse question={question} response={response} onChange={onChange} showResult={showResult} disabled={disabled} />;
+    case 'hotspot':
+      return <HotspotResponse question={question} response={response} onChange={onChange} showResult={showResult} disabled={disabled} />;
+    case 'fill_in':
+      return <FillInResponse question={question} response={response} onChange={onChange} showResult={showResult} disabled={disabled} />;
+    default:
+      return <AnswerOptions question={question} selectedAnswer={response} onSelect={onChange} showResult={showResult} disabled={disabled} />;
+  }
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { REPORT_REASONS, REPORT_REASON_LABELS, ReportReason } from '@/lib/moderation';
+import { Chip } from '@/components/Chip';
+
+interface ReportQuestionFormProps {
+  submitting: boolean;
+  onSubmit: (reason: ReportReason, comment: string) => void;
+  onCancel: () => void;
+}
+
+export function ReportQuestionForm({ submitting, onSubmit, onCancel }: ReportQuestionFormProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [comment, setComment] = useState('');
+  // "Other" says nothing on its own
+  const canSubmit = !!reason && (reason !== 'other' || comment.trim().length > 0) && !submitting;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Report an issue</Text>
+      <Text style={styles.subtitle}>What's wrong with this question?</Text>
+      <View style={styles.chipRow}>
+        {REPORT_REASONS.map(option => (
+          <Chip
+            key={option}
+            label={REPORT_REASON_LABELS[option]}
+            selected={reason === option}
+            onPress={() => setReason(option)}
+          />
+        ))}
+      </View>
+      <TextInput
+        style={styles.input}
+        value={comment}
+        onChangeText={setComment}
+        placeholder="Add details, e.g. what the answer should be and why"
+        placeholderTextColor="#94A3B8"
+        multiline
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.disabledButton]}
+          onPress={() => reason && onSubmit(reason, comment)}
+          disabled={!canSubmit}
+        >
+          <Text style={styles.submitText}>{submitting ? 'Sending...' : 'Send Report'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 20,
+    marginBottom: 0,
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    minHeight: 60,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    fontSize: 14,
+    color: '#1E293B',
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 12,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  submitButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#94A3B8',
+  },
+  submitText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CalendarDays, Clock, Flag } from 'lucide-react-native';
+import { PLAN_MILESTONE_LABELS, PlanWeek, StudyPlan } from '@/lib/studyPlan';
+
+interface StudyPlanCardProps {
+  plan: StudyPlan;
+  onEdit: () => void;
+}
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+function WeekSummary({ week }: { week: PlanWeek }) {
+  return (
+    <View style={styles.weekRow}>
+      <View style={styles.weekHeader}>
+        <Text style={styles.weekTitle}>
+          Week {week.index + 1} · {formatDay(week.start)}–{formatDay(week.end)}
+        </Text>
+        <Text style={styles.weekMinutes}>{formatMinutes(week.minutes)}</Text>
+      </View>
+      {week.milestone && (
+        <View style={styles.milestone}>
+          <Flag size={12} color="#7C3AED" />
+          <Text style={styles.milestoneText}>{PLAN_MILESTONE_LABELS[week.milestone]}</Text>
+        </View>
+      )}
+      {week.focus.map(focus => (
+        <Text key={focus.domain} style={styles.focusText}>
+          {focus.domain}: {focus.questions} questions
+          {focus.knowledgeAreas.length > 0 && ` · ${focus.knowledgeAreas.join(', ')}`}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+// This week's targets up front; the rest of the plan folds out below
+export function StudyPlanCard({ plan, onEdit }: StudyPlanCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [current, ...upcoming] = plan.weeks;
+  if (!current) return null;
+
+  const minutesDone = Math.floor(plan.thisWeek.seconds / 60);
+  const completion = current.minutes > 0 ? Math.min(1, minutesDone / current.minutes) : 0;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <CalendarDays size={20} color="#2563EB" />
+        <Text style={styles.title}>Study Plan</Text>
+        <Text style={styles.weeksLeft}>
+          {plan.weeks.length} {plan.weeks.length === 1 ? 'week' : 'weeks'} to go
+        </Text>
+      </View>
+
+      <WeekSummary week={current} />
+
+      <View style={styles.progressBar}>
+        <View
+          style={[styles.progressFill, { width: `${Math.round(completion * 100)}%` }, completion >= 1 && styles.progressComplete]}
+        />
+      </View>
+      <View style={styles.progressRow}>
+        <Clock size={14} color="#64748B" />
+        <Text style={styles.progressText}>
+          {formatMinutes(Math.min(minutesDone, current.minutes))} of {formatMinutes(current.minutes)} this week
+          · {plan.thisWeek.questions} questions
+        </Text>
+      </View>
+
+      {plan.missedDays > 0 && (
+        <Text style={styles.catchUpText}>
+          {plan.missedDays} missed {plan.missedDays === 1 ? 'day' : 'days'} ·{' '}
+          {formatMinutes(plan.catchUpMinutes)} spread over the coming weeks
+        </Text>
+      )}
+
+      {expanded && upcoming.map(week => <WeekSummary key={week.start} week={week} />)}
+
+      <View style={styles.linkRow}>
+        {upcoming.length > 0 && (
+          <TouchableOpacity onPress={() => setExpanded(prev => !prev)}>
+            <Text style={styles.link}>{expanded ? 'Hide later weeks' : 'Show full plan'}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onEdit}>
+          <Text style={styles.link}>Edit plan</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 20,
+    marginTop: 0,
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  weeksLeft: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  weekRow: {
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  weekTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  weekMinutes: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  milestone: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    backgroundColor: '#F5F3FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginBottom: 4,
+  },
+  milestoneText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7C3AED',
+  },
+  focusText: {
+    fontSize: 13,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#E2E8F0',
+    borderRadius: 4,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+    borderRadius: 4,
+  },
+  progressComplete: {
+    backgroundColor: '#10B981',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  catchUpText: {
+    fontSize: 13,
+    color: '#D97706',
+    marginTop: 8,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+});
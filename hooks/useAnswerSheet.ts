@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { AnswerSheetEntry } from '@/lib/answers';
+
+// Answers stay editable until the sheet is graded; the first pick is kept so
+// we can tell afterwards whether (and from what) the answer was changed.
+export function useAnswerSheet() {
+  const [entries, setEntries] = useState<Record<string, AnswerSheetEntry>>({});
+  const [flagged, setFlagged] = useState<Record<string, boolean>>({});
+
+  // An empty answer (e.g. every option unticked) clears the question
+  const select = (questionId: string, answer: string) => {
+    if (!answer) {
+      setEntries(prev => {
+        const { [questionId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+    setEntries(prev => ({
+      ...prev,
+      [questionId]: {
+        selectedAnswer: answer,
+        originalAnswer: prev[questionId]?.originalAnswer ?? answer
+      }
+    }));
+  };
+
+  const toggleFlag = (questionId: string) => {
+    setFlagged(prev => ({ ...prev, [questionId]: !prev[questionId] }));
+  };
+
+  const reset = () => {
+    setEntries({});
+    setFlagged({});
+  };
+
+  return { entries, flagged, select, toggleFlag, reset };
+}
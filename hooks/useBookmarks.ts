@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { BookmarkChanges, QuestionBookmark, isBookmarked, loadBookmarks, saveBookmark } from '@/lib/bookmarks';
+
+// The signed-in user's bookmarks and notes, keyed by question id
+export function useBookmarks(userId: string | null) {
+  const [bookmarks, setBookmarks] = useState<Record<string, QuestionBookmark>>({});
+
+  useEffect(() => {
+    if (!userId) return;
+    loadBookmarks(userId)
+      .then(setBookmarks)
+      .catch(error => console.error('Error loading bookmarks:', error));
+  }, [userId]);
+
+  const update = async (questionId: string, changes: BookmarkChanges) => {
+    if (!userId) return;
+    try {
+      const saved = await saveBookmark(userId, questionId, changes);
+      setBookmarks(prev => ({ ...prev, [questionId]: saved }));
+    } catch (error) {
+      console.error('Error saving bookmark:', error);
+      Alert.alert('Error', 'Failed to save your bookmark. Please try again.');
+    }
+  };
+
+  const toggleBookmark = (questionId: string) =>
+    update(questionId, { bookmarked: isBookmarked(bookmarks[questionId]) ? 0 : 1 });
+
+  const saveNote = (questionId: string, note: string) => update(questionId, { note: note.trim() });
+
+  return { bookmarks, toggleBookmark, saveNote };
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { QuestionTiming } from '@/lib/answers';
+
+// Accumulates how long each question has been on screen. Time keeps counting
+// while the app is backgrounded (that portion is also tallied separately), and
+// revisiting a question adds to its total rather than restarting it.
+export function useQuestionTimer(activeQuestionId: string | null) {
+  const timingsRef = useRef<Record<string, QuestionTiming>>({});
+  const activeIdRef = useRef<string | null>(null);
+  const shownAtRef = useRef(0);
+  const backgroundedAtRef = useRef<number | null>(null);
+  const startedAtRef = useRef<number | null>(null);
+
+  const flush = () => {
+    const questionId = activeIdRef.current;
+    if (!questionId) return;
+
+    const now = Date.now();
+    const current = timingsRef.current[questionId] || { timeSpentMs: 0, backgroundMs: 0 };
+    const backgroundMs = backgroundedAtRef.current !== null ? now - backgroundedAtRef.current : 0;
+    timingsRef.current[questionId] = {
+      timeSpentMs: current.timeSpentMs + (now - shownAtRef.current),
+      backgroundMs: current.backgroundMs + backgroundMs
+    };
+    shownAtRef.current = now;
+    if (backgroundedAtRef.current !== null) backgroundedAtRef.current = now;
+  };
+
+  useEffect(() => {
+    flush();
+    activeIdRef.current = activeQuestionId;
+    shownAtRef.current = Date.now();
+    if (activeQuestionId && startedAtRef.current === null) {
+      startedAtRef.current = Date.now();
+    }
+  }, [activeQuestionId]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        if (backgroundedAtRef.current !== null) {
+          flush();
+          backgroundedAtRef.current = null;
+        }
+      } else if (backgroundedAtRef.current === null) {
+        flush();
+        backgroundedAtRef.current = Date.now();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Snapshot including the question currently on screen
+  const getTimings = () => {
+    flush();
+    return { ...timingsRef.current };
+  };
+
+  const getSessionDuration = () =>
+    startedAtRef.current === null ? 0 : Math.round((Date.now() - startedAtRef.current) / 1000);
+
+  const reset = () => {
+    timingsRef.current = {};
+    shownAtRef.current = Date.now();
+    startedAtRef.current = activeIdRef.current ? Date.now() : null;
+  };
+
+  return { getTimings, getSessionDuration, reset };
+}
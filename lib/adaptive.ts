@@ -0,0 +1,103 @@
+import { Question } from '@/lib/questions';
+import { DIFFICULTIES } from '@/lib/sessionConfig';
+import { GradedAnswer, computeCategoryStats, lookupCurrent } from '@/lib/stats';
+
+export const DRILL_LENGTH = 10;
+
+// Difficulty is re-evaluated over this many most recent drill answers
+export const ROLLING_WINDOW = 4;
+const STEP_UP_ACCURACY = 0.75;
+const STEP_DOWN_ACCURACY = 0.5;
+
+export interface AreaWeights {
+  byCategory: Map<string, number>;
+  byKnowledgeArea: Map<string, number>;
+}
+
+export interface WeakArea {
+  name: string;
+  accuracy: number;
+  total: number;
+}
+
+// Laplace-smoothed error rate, so areas with no history still get picked
+// (weight 0.5) and a single miss doesn't dominate the selection
+const errorWeights = (answers: GradedAnswer[], questions: Question[], groupBy: 'category' | 'knowledgeArea') => {
+  const weights = new Map<string, number>();
+  questions.forEach(question => weights.set(question[groupBy], 0.5));
+  computeCategoryStats(answers, lookupCurrent(questions), groupBy).forEach(stat => {
+    weights.set(stat.category, 1 - (stat.correct + 1) / (stat.total + 2));
+  });
+  return weights;
+};
+
+export const computeAreaWeights = (answers: GradedAnswer[], questions: Question[]): AreaWeights => ({
+  byCategory: errorWeights(answers, questions, 'category'),
+  byKnowledgeArea: errorWeights(answers, questions, 'knowledgeArea'),
+});
+
+export const getWeakAreas = (answers: GradedAnswer[], questions: Question[], limit = 3): WeakArea[] =>
+  computeCategoryStats(answers, lookupCurrent(questions), 'knowledgeArea')
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+    .slice(0, limit)
+    .map(stat => ({ name: stat.category, accuracy: stat.accuracy, total: stat.total }));
+
+// Start in the middle of the ladder unless history says otherwise
+export const initialDifficulty = (answers: GradedAnswer[]) => {
+  const recent = answers.slice(0, ROLLING_WINDOW * 2);
+  if (recent.length < ROLLING_WINDOW) return 'medium';
+  const accuracy = recent.filter(answer => Number(answer.isCorrect) > 0).length / recent.length;
+  if (accuracy >= STEP_UP_ACCURACY) return 'hard';
+  if (accuracy < STEP_DOWN_ACCURACY) return 'easy';
+  return 'medium';
+};
+
+// Moves one step along the easy/medium/hard ladder once the window is full;
+// the window restarts after every change so each level gets a fair trial
+export const adjustDifficulty = (difficulty: string, window: boolean[]) => {
+  if (window.length < ROLLING_WINDOW) return { difficulty, window };
+
+  const recent = window.slice(-ROLLING_WINDOW);
+  const accuracy = recent.filter(Boolean).length / recent.length;
+  const index = Math.max(0, DIFFICULTIES.indexOf(difficulty));
+
+  let nextIndex = index;
+  if (accuracy >= STEP_UP_ACCURACY) nextIndex = Math.min(DIFFICULTIES.length - 1, index + 1);
+  else if (accuracy < STEP_DOWN_ACCURACY) nextIndex = Math.max(0, index - 1);
+
+  if (nextIndex === index) return { difficulty, window: recent };
+  return { difficulty: DIFFICULTIES[nextIndex], window: [] };
+};
+
+// Weighted random pick: weaker category × weaker knowledge area = more likely.
+// Falls back to the nearest difficulty when the target level is exhausted.
+export const pickNextQuestion = (
+  pool: Question[],
+  weights: AreaWeights,
+  difficulty: string,
+  askedIds: Set<string>
+): Question | null => {
+  const available = pool.filter(question => !askedIds.has(question.id));
+  if (available.length === 0) return null;
+
+  const target = DIFFICULTIES.indexOf(difficulty);
+  const distance = (question: Question) => {
+    const index = DIFFICULTIES.indexOf(question.difficulty);
+    return index === -1 || target === -1 ? 0 : Math.abs(index - target);
+  };
+  const closest = Math.min(...available.map(distance));
+  const candidates = available.filter(question => distance(question) === closest);
+
+  const scored = candidates.map(question => ({
+    question,
+    score: (weights.byCategory.get(question.category) ?? 0.5) * (weights.byKnowledgeArea.get(question.knowledgeArea) ?? 0.5),
+  }));
+  const total = scored.reduce((sum, item) => sum + item.score, 0);
+
+  let roll = Math.random() * total;
+  for (const item of scored) {
+    roll -= item.score;
+    if (roll <= 0) return item.question;
+  }
+  return scored[scored.length - 1].question;
+};
@@ -0,0 +1,303 @@
+import { AnswerRecord } from '@/lib/answers';
+import { Question } from '@/lib/questions';
+import { isRetired, loadQuestionBank } from '@/lib/questionBank';
+import { loadVersionLookup } from '@/lib/questionVersions';
+import { readLocal, writeLocal } from '@/lib/localStore';
+import {
+  answersRepository,
+  categoryAggregatesRepository,
+  dailyAggregatesRepository,
+  questionAggregatesRepository,
+  aggregateStatesRepository
+} from '@/lib/repository';
+import { CategoryStats, QuestionLookup } from '@/lib/stats';
+import { localDateKey } from '@/lib/streak';
+
+// Row shapes of the aggregate tables: running totals over a user's whole
+// answer history, so the stats screen reads a few hundred rows instead of
+// every answer. Each answer is folded in once, under the question version it
+// was given against, the first time home or stats loads after it has synced;
+// folding stamps `aggregatedAt` on the answer, so an answer that syncs late
+// (e.g. after days offline) is still picked up whatever its answeredAt.
+
+// `categoryAggregates`: one row per user and category
+export interface CategoryAggregate {
+  id: string;
+  userId: string;
+  category: string;
+  total: number;
+  correct: number;
+  updatedAt: string;
+}
+
+// `dailyAggregates`: one row per user and local study day
+export interface DailyAggregate {
+  id: string;
+  userId: string;
+  date: string; // local date key
+  answered: number;
+  correct: number;
+  timedAnswers: number; // answers recorded with timing
+  timeSpentMs: number;
+  updatedAt: string;
+}
+
+// `questionAggregates`: one row per user and question version answered, so
+// each keeps the category it counted towards
+export interface QuestionAggregate {
+  id: string;
+  userId: string;
+  questionId: string;
+  questionVersionId: string | null;
+  category: string;
+  knowledgeArea: string;
+  attempts: number;
+  correct: number;
+  lastAnsweredAt: string;
+  lastCorrect: number;
+  updatedAt: string;
+}
+
+// `aggregateStates`: one row per user (id = userId) saying whether the totals
+// can be trusted
+export interface AggregateState {
+  id: string;
+  userId: string;
+  formatVersion: number; // totals from an older FORMAT_VERSION are rebuilt
+  pending: number; // 1 while a fold is being written; a crash midway forces a rebuild
+  updatedAt: string;
+}
+
+export interface AnswerAggregates {
+  categories: CategoryAggregate[];
+  days: DailyAggregate[];
+  questions: QuestionAggregate[];
+}
+
+// Bump when the way answers are folded changes, so stored totals are rebuilt
+const FORMAT_VERSION = 2;
+
+// Answers are stamped in batches so a rebuild of a long history stays within
+// what one write accepts
+const MARK_BATCH_SIZE = 500;
+
+const CACHE_KEY = 'answerAggregates';
+
+type AggregateTotals = {
+  categories: Map<string, CategoryAggregate>;
+  days: Map<string, DailyAggregate>;
+  questions: Map<string, QuestionAggregate>;
+};
+
+const byId = <T extends { id: string }>(rows: T[]) => new Map(rows.map(row => [row.id, row]));
+
+// Every touched row is written whole, so a rebuild starts from the stored
+// rows zeroed rather than leaving stale totals behind
+const zeroed = (totals: AggregateTotals): AggregateTotals => ({
+  categories: new Map(Array.from(totals.categories, ([id, row]) => [id, { ...row, total: 0, correct: 0 }])),
+  days: new Map(Array.from(totals.days, ([id, row]) =>
+    [id, { ...row, answered: 0, correct: 0, timedAnswers: 0, timeSpentMs: 0 }])),
+  questions: new Map(Array.from(totals.questions, ([id, row]) => [id, { ...row, attempts: 0, correct: 0 }])),
+});
+
+// Adds answers (oldest first) to the totals; returns the ids of the rows touched
+const foldAnswers = (
+  totals: AggregateTotals,
+  userId: string,
+  answers: AnswerRecord[],
+  questionFor: QuestionLookup,
+  now = new Date().toISOString()
+) => {
+  const touched = new Set<string>();
+
+  answers.forEach(answer => {
+    const correct = Number(answer.isCorrect) > 0 ? 1 : 0;
+    const date = localDateKey(new Date(answer.answeredAt));
+    const dayId = `${userId}_${date}`;
+    const day = totals.days.get(dayId) ??
+      { id: dayId, userId, date, answered: 0, correct: 0, timedAnswers: 0, timeSpentMs: 0, updatedAt: now };
+    const timed = typeof answer.timeSpentMs === 'number' && answer.timeSpentMs > 0;
+    totals.days.set(dayId, {
+      ...day,
+      answered: day.answered + 1,
+      correct: day.correct + correct,
+      timedAnswers: day.timedAnswers + (timed ? 1 : 0),
+      timeSpentMs: day.timeSpentMs + (timed ? Number(answer.timeSpentMs) : 0),
+      updatedAt: now
+    });
+    touched.add(dayId);
+
+    const question = questionFor(answer);
+    if (!question) return;
+
+    const categoryId = `${userId}_${question.category}`;
+    const category = totals.categories.get(categoryId) ??
+      { id: categoryId, userId, category: question.category, total: 0, correct: 0, updatedAt: now };
+    totals.categories.set(categoryId, {
+      ...category,
+      total: category.total + 1,
+      correct: category.correct + correct,
+      updatedAt: now
+    });
+    touched.add(categoryId);
+
+    const versionId = answer.questionVersionId ?? null;
+    const questionId = `${userId}_${answer.questionId}_${versionId ?? 'original'}`;
+    const existing = totals.questions.get(questionId) ?? {
+      id: questionId,
+      userId,
+      questionId: answer.questionId,
+      questionVersionId: versionId,
+      category: question.category,
+      knowledgeArea: question.knowledgeArea,
+      attempts: 0,
+      correct: 0,
+      lastAnsweredAt: '',
+      lastCorrect: 0,
+      updatedAt: now
+    };
+    const isLatest = answer.answeredAt >= existing.lastAnsweredAt;
+    totals.questions.set(questionId, {
+      ...existing,
+      attempts: existing.attempts + 1,
+      correct: existing.correct + correct,
+      lastAnsweredAt: isLatest ? answer.answeredAt : existing.lastAnsweredAt,
+      lastCorrect: isLatest ? correct : existing.lastCorrect,
+      updatedAt: now
+    });
+    touched.add(questionId);
+  });
+
+  return touched;
+};
+
+const toAggregates = (totals: AggregateTotals): AnswerAggregates => ({
+  categories: Array.from(totals.categories.values()),
+  days: Array.from(totals.days.values()),
+  questions: Array.from(totals.questions.values()),
+});
+
+const markAggregated = async (answers: AnswerRecord[], aggregatedAt: string) => {
+  for (let start = 0; start < answers.length; start += MARK_BATCH_SIZE) {
+    await answersRepository.upsertMany(
+      answers.slice(start, start + MARK_BATCH_SIZE).map(answer => ({ ...answer, aggregatedAt }))
+    );
+  }
+};
+
+// One fold at a time per user: a second load reading the totals after the
+// first wrote them, but the answers before they were stamped, would count
+// those answers twice
+const foldLocks = new Map<string, Promise<unknown>>();
+const withFoldLock = <T>(userId: string, task: () => Promise<T>): Promise<T> => {
+  const run = (foldLocks.get(userId) ?? Promise.resolve()).then(task);
+  foldLocks.set(userId, run.catch(() => {}));
+  return run;
+};
+
+const foldAnswerAggregates = async (userId: string): Promise<AnswerAggregates> => {
+  const cacheKey = `${CACHE_KEY}:${userId}`;
+  try {
+    const [state, categories, days, questionRows, bank] = await Promise.all([
+      aggregateStatesRepository.get(userId, { fresh: true }),
+      categoryAggregatesRepository.listAll({ where: { userId }, orderBy: { id: 'asc' } }, { fresh: true }),
+      dailyAggregatesRepository.listAll({ where: { userId }, orderBy: { date: 'asc' } }, { fresh: true }),
+      questionAggregatesRepository.listAll({ where: { userId }, orderBy: { id: 'asc' } }, { fresh: true }),
+      loadQuestionBank({ includeRetired: true })
+    ]);
+    const stored = { categories: byId(categories), days: byId(days), questions: byId(questionRows) };
+
+    const rebuild = !state || state.formatVersion !== FORMAT_VERSION || Number(state.pending) > 0;
+    const fresh = await answersRepository.listAll({
+      where: rebuild ? { userId } : { userId, aggregatedAt: null },
+      orderBy: { answeredAt: 'asc' }
+    }, { fresh: true });
+
+    if (!rebuild && fresh.length === 0) {
+      const aggregates = toAggregates(stored);
+      await writeLocal(cacheKey, aggregates);
+      return aggregates;
+    }
+
+    const totals = rebuild ? zeroed(stored) : stored;
+    const questionFor = await loadVersionLookup(fresh, bank);
+    const now = new Date().toISOString();
+    const touched = rebuild
+      ? new Set([...totals.categories.keys(), ...totals.days.keys(), ...totals.questions.keys()])
+      : new Set<string>();
+    foldAnswers(totals, userId, fresh, questionFor, now).forEach(id => touched.add(id));
+
+    const nextState: AggregateState = { id: userId, userId, formatVersion: FORMAT_VERSION, pending: 0, updatedAt: now };
+
+    // Marked pending first: if any of the totals or stamps fail to land, the
+    // next load rebuilds instead of folding the same answers in twice
+    await aggregateStatesRepository.upsertMany([{ ...nextState, pending: 1 }]);
+    await categoryAggregatesRepository.upsertMany(Array.from(totals.categories.values()).filter(row => touched.has(row.id)));
+    await dailyAggregatesRepository.upsertMany(Array.from(totals.days.values()).filter(row => touched.has(row.id)));
+    await questionAggregatesRepository.upsertMany(Array.from(totals.questions.values()).filter(row => touched.has(row.id)));
+    await markAggregated(rebuild ? fresh.filter(answer => !answer.aggregatedAt) : fresh, now);
+    await aggregateStatesRepository.upsertMany([nextState]);
+
+    const aggregates = toAggregates(totals);
+    await writeLocal(cacheKey, aggregates);
+    return aggregates;
+  } catch (error) {
+    console.error('Error updating answer aggregates, using cached copy:', error);
+    return readLocal<AnswerAggregates>(cacheKey, { categories: [], days: [], questions: [] });
+  }
+};
+
+// Brings the user's totals up to date and returns them. Only answers not yet
+// stamped are read, unless the stored totals can't be trusted, in which case
+// the whole history is refolded. Falls back to the last totals seen on this
+// device when Blink can't be reached.
+export const loadAnswerAggregates = (userId: string): Promise<AnswerAggregates> =>
+  withFoldLock(userId, () => foldAnswerAggregates(userId));
+
+// Category accuracy from the totals, leaving out answers to questions retired
+// since (the question itself was at fault), busiest categories first
+export const aggregateCategoryStats = (aggregates: AnswerAggregates, questions: Question[]): CategoryStats[] => {
+  const retired = new Set(questions.filter(isRetired).map(question => question.id));
+  const totals = new Map(aggregates.categories.map(row => [row.category, { total: row.total, correct: row.correct }]));
+  aggregates.questions
+    .filter(row => retired.has(row.questionId))
+    .forEach(row => {
+      const category = totals.get(row.category);
+      if (!category) return;
+      category.total -= row.attempts;
+      category.correct -= row.correct;
+    });
+
+  return Array.from(totals.entries())
+    .filter(([, data]) => data.total > 0)
+    .map(([category, data]) => ({
+      category,
+      total: data.total,
+      correct: data.correct,
+      accuracy: Math.round((data.correct / data.total) * 100)
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+// Accuracy over every answer still counted, as a whole percentage
+export const overallAccuracy = (stats: CategoryStats[]) => {
+  const total = stats.reduce((sum, category) => sum + category.total, 0);
+  const correct = stats.reduce((sum, category) => sum + category.correct, 0);
+  return total > 0 ? Math.round((correct / total) * 100) : 0;
+};
+
+export const loadCategoryStats = async (userId: string) => {
+  const [aggregates, questions] = await Promise.all([
+    loadAnswerAggregates(userId),
+    loadQuestionBank({ includeRetired: true })
+  ]);
+  return aggregateCategoryStats(aggregates, questions);
+};
+
+// Average seconds per timed answer over the whole history; null if none
+export const aggregateAverageSeconds = (days: DailyAggregate[]) => {
+  const timed = days.reduce((sum, day) => sum + day.timedAnswers, 0);
+  if (timed === 0) return null;
+  const totalMs = days.reduce((sum, day) => sum + day.timeSpentMs, 0);
+  return Math.round(totalMs / timed / 1000);
+};
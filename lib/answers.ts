@@ -0,0 +1,71 @@
+import { Question } from '@/lib/questions';
+import { gradeResponse } from '@/lib/questionTypes';
+import { createId } from '@/lib/sessions';
+
+export interface AnswerSheetEntry {
+  selectedAnswer: string;
+  originalAnswer: string;
+}
+
+// Wall-clock time a question was on screen; backgroundMs is the part of
+// timeSpentMs during which the app was in the background
+export interface QuestionTiming {
+  timeSpentMs: number;
+  backgroundMs: number;
+}
+
+// Row shape of the `userAnswers` table
+export interface AnswerRecord {
+  id: string;
+  userId: string;
+  sessionId: string | null; // null on rows from before answers were tied to sessions
+  questionId: string;
+  selectedAnswer: string;
+  isCorrect: number;
+  score: number | null; // 0–1, partial credit; null on rows from before scoring
+  wasChanged: number;
+  originalAnswer: string | null;
+  isFlagged: number;
+  timeSpentMs: number | null;
+  backgroundMs: number | null;
+  questionVersionId: string | null; // the version answered; null means the original
+  answeredAt: string;
+  aggregatedAt: string | null; // when it was folded into the stats aggregates; null until then
+}
+
+// Grades every answered question on the sheet; unanswered ones produce no row
+export const gradeAnswerSheet = (
+  userId: string,
+  sessionId: string,
+  questions: Question[],
+  entries: Record<string, AnswerSheetEntry>,
+  flagged: Record<string, boolean>,
+  timings: Record<string, QuestionTiming> = {}
+): AnswerRecord[] => {
+  const answeredAt = new Date().toISOString();
+
+  return questions
+    .filter(question => entries[question.id])
+    .map(question => {
+      const { selectedAnswer, originalAnswer } = entries[question.id];
+      const wasChanged = selectedAnswer !== originalAnswer;
+      const score = gradeResponse(question, selectedAnswer);
+      return {
+        id: createId('answer'),
+        userId,
+        sessionId,
+        questionId: question.id,
+        selectedAnswer,
+        isCorrect: score === 1 ? 1 : 0,
+        score,
+        wasChanged: wasChanged ? 1 : 0,
+        originalAnswer: wasChanged ? originalAnswer : null,
+        isFlagged: flagged[question.id] ? 1 : 0,
+        timeSpentMs: timings[question.id]?.timeSpentMs ?? null,
+        backgroundMs: timings[question.id]?.backgroundMs ?? null,
+        questionVersionId: question.versionId ?? null,
+        answeredAt,
+        aggregatedAt: null
+      };
+    });
+};
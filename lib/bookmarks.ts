@@ -0,0 +1,63 @@
+import { readLocal, writeLocal } from '@/lib/localStore';
+import { queueUpserts } from '@/lib/outbox';
+import { bookmarksRepository } from '@/lib/repository';
+
+// Per-user, per-question bookmark flag and note, stored in the
+// `questionBookmarks` table. Un-bookmarking keeps the row (and the note).
+export interface QuestionBookmark {
+  id: string;
+  userId: string;
+  questionId: string;
+  bookmarked: number; // 1 = bookmarked
+  note: string;
+  updatedAt: string;
+}
+
+export type BookmarkChanges = Partial<Pick<QuestionBookmark, 'bookmarked' | 'note'>>;
+
+const bookmarkId = (userId: string, questionId: string) => `bookmark_${userId}_${questionId}`;
+const bookmarkCacheKey = (userId: string) => `questionBookmarks:${userId}`;
+
+export const isBookmarked = (bookmark: QuestionBookmark | null | undefined) =>
+  Number(bookmark?.bookmarked) > 0;
+
+// Refreshed from Blink when reachable and otherwise served from the copy kept
+// on the device, same as review states
+export const loadBookmarks = async (userId: string): Promise<Record<string, QuestionBookmark>> => {
+  const cached = await readLocal<Record<string, QuestionBookmark>>(bookmarkCacheKey(userId), {});
+  try {
+    const rows = await bookmarksRepository.listAll({ where: { userId }, orderBy: { id: 'asc' } }, { fresh: true });
+    // Local edits not yet synced are newer than what the server has
+    const merged = Object.fromEntries(rows.map(bookmark => [bookmark.questionId, bookmark]));
+    Object.values(cached).forEach(bookmark => {
+      const remote = merged[bookmark.questionId];
+      if (!remote || remote.updatedAt < bookmark.updatedAt) merged[bookmark.questionId] = bookmark;
+    });
+    await writeLocal(bookmarkCacheKey(userId), merged);
+    return merged;
+  } catch (error) {
+    console.error('Error fetching bookmarks, using cached copy:', error);
+    return cached;
+  }
+};
+
+// Saved to the local copy and queued, so it works offline
+export const saveBookmark = async (userId: string, questionId: string, changes: BookmarkChanges) => {
+  const bookmarks = await readLocal<Record<string, QuestionBookmark>>(bookmarkCacheKey(userId), {});
+  const previous = bookmarks[questionId];
+  const next: QuestionBookmark = {
+    id: bookmarkId(userId, questionId),
+    userId,
+    questionId,
+    bookmarked: changes.bookmarked ?? previous?.bookmarked ?? 0,
+    note: changes.note ?? previous?.note ?? '',
+    updatedAt: new Date().toISOString()
+  };
+
+  await writeLocal(bookmarkCacheKey(userId), { ...bookmarks, [questionId]: next });
+  await queueUpserts('questionBookmarks', [next]);
+  return next;
+};
+
+export const listBookmarkedIds = async (userId: string) =>
+  new Set(Object.values(await loadBookmarks(userId)).filter(isBookmarked).map(bookmark => bookmark.questionId));
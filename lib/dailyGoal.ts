@@ -0,0 +1,52 @@
+import { StudySession, User } from '@/lib/schema';
+
+// Either target can be switched off with 0; with both set, both must be met
+export interface DailyGoal {
+  questions: number;
+  minutes: number;
+}
+
+export interface DailyProgress {
+  questions: number;
+  seconds: number;
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { questions: 5, minutes: 0 };
+
+export const GOAL_QUESTION_OPTIONS = [0, 5, 10, 20, 50];
+export const GOAL_MINUTE_OPTIONS = [0, 10, 15, 30, 60];
+
+export const getDailyGoal = (user: Pick<User, 'dailyGoalQuestions' | 'dailyGoalMinutes'> | null): DailyGoal => {
+  const questions = Math.max(0, user?.dailyGoalQuestions ?? DEFAULT_DAILY_GOAL.questions);
+  const minutes = Math.max(0, user?.dailyGoalMinutes ?? DEFAULT_DAILY_GOAL.minutes);
+  return questions === 0 && minutes === 0 ? DEFAULT_DAILY_GOAL : { questions, minutes };
+};
+
+// Totals for one local day, from that day's sessions
+export const summarizeDay = (sessions: Pick<StudySession, 'questionsAnswered' | 'sessionDuration'>[]): DailyProgress =>
+  sessions.reduce(
+    (total, session) => ({
+      questions: total.questions + session.questionsAnswered,
+      seconds: total.seconds + session.sessionDuration
+    }),
+    { questions: 0, seconds: 0 }
+  );
+
+// 0–1, limited by whichever target is furthest from done
+export const getGoalCompletion = (goal: DailyGoal, progress: DailyProgress) => {
+  const parts: number[] = [];
+  if (goal.questions > 0) parts.push(progress.questions / goal.questions);
+  if (goal.minutes > 0) parts.push(progress.seconds / 60 / goal.minutes);
+  return parts.length > 0 ? Math.min(1, ...parts) : 0;
+};
+
+export const isDailyGoalMet = (goal: DailyGoal, progress: DailyProgress) =>
+  getGoalCompletion(goal, progress) >= 1;
+
+export const describeDailyGoal = (goal: DailyGoal) => {
+  const parts: string[] = [];
+  if (goal.questions > 0) parts.push(`answer ${goal.questions} ${goal.questions === 1 ? 'question' : 'questions'}`);
+  if (goal.minutes > 0) parts.push(`study ${goal.minutes} minutes`);
+  const text = parts.join(' and ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
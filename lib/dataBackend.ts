@@ -0,0 +1,101 @@
+import { blink } from '@/lib/blink';
+
+export type Row = Record<string, any>;
+
+// Same filter/sort vocabulary as Blink's `list`, so call sites don't change
+// when the backend does
+export interface ListOptions {
+  where?: Row;
+  orderBy?: Record<string, 'asc' | 'desc'>;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DataBackend {
+  list(table: string, options?: ListOptions): Promise<Row[]>;
+  create(table: string, row: Row): Promise<void>;
+  upsertMany(table: string, rows: Row[]): Promise<void>;
+  update(table: string, id: string, changes: Row): Promise<void>;
+  exists(table: string, where: Row): Promise<boolean>;
+}
+
+export const blinkBackend: DataBackend = {
+  list: (table, options = {}) => blink.db.table(table).list(options),
+  create: async (table, row) => {
+    await blink.db.table(table).create(row);
+  },
+  upsertMany: async (table, rows) => {
+    await blink.db.table(table).upsertMany(rows);
+  },
+  update: async (table, id, changes) => {
+    await blink.db.table(table).update(id, changes);
+  },
+  exists: (table, where) => blink.db.table(table).exists({ where }),
+};
+
+const compare = (a: any, b: any) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Supports the subset of Blink's operators the app uses
+const matchesCondition = (value: any, condition: any): boolean => {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return value === condition;
+  }
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case 'eq': return value === operand;
+      case 'neq': return value !== operand;
+      case 'gt': return compare(value, operand) > 0;
+      case 'gte': return compare(value, operand) >= 0;
+      case 'lt': return compare(value, operand) < 0;
+      case 'lte': return compare(value, operand) <= 0;
+      case 'in': return operand.includes(value);
+      case 'not_in': return !operand.includes(value);
+      default: throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+};
+
+const matchesWhere = (row: Row, where: Row): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as Row[]).every(clause => matchesWhere(row, clause));
+    if (key === 'OR') return (condition as Row[]).some(clause => matchesWhere(row, clause));
+    return matchesCondition(row[key], condition);
+  });
+
+// Stand-in for Blink in tests and local development; tables are created on
+// first use and rows are copied in and out so callers can't mutate the store
+export const createMemoryBackend = (seed: Record<string, Row[]> = {}): DataBackend => {
+  const tables = new Map<string, Map<string, Row>>();
+  const tableFor = (name: string) => {
+    if (!tables.has(name)) tables.set(name, new Map());
+    return tables.get(name)!;
+  };
+  Object.entries(seed).forEach(([name, rows]) => {
+    rows.forEach(row => tableFor(name).set(row.id, { ...row }));
+  });
+
+  return {
+    list: async (table, { where = {}, orderBy = {}, limit, offset = 0 } = {}) => {
+      const rows = Array.from(tableFor(table).values()).filter(row => matchesWhere(row, where));
+      Object.entries(orderBy).reverse().forEach(([key, direction]) => {
+        rows.sort((a, b) => compare(a[key], b[key]) * (direction === 'desc' ? -1 : 1));
+      });
+      const end = limit === undefined ? undefined : offset + limit;
+      return rows.slice(offset, end).map(row => ({ ...row }));
+    },
+    create: async (table, row) => {
+      if (tableFor(table).has(row.id)) throw new Error(`Duplicate id in ${table}: ${row.id}`);
+      tableFor(table).set(row.id, { ...row });
+    },
+    upsertMany: async (table, rows) => {
+      rows.forEach(row => tableFor(table).set(row.id, { ...tableFor(table).get(row.id), ...row }));
+    },
+    update: async (table, id, changes) => {
+      const existing = tableFor(table).get(id);
+      if (!existing) throw new Error(`No row in ${table} with id ${id}`);
+      tableFor(table).set(id, { ...existing, ...changes });
+    },
+    exists: async (table, where) =>
+      Array.from(tableFor(table).values()).some(row => matchesWhere(row, where)),
+  };
+};
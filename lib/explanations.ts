@@ -0,0 +1,67 @@
+import { Question } from '@/lib/questions';
+import { getChoiceOptions, getQuestionType, splitKeys } from '@/lib/questionTypes';
+
+// A citation backing the answer, e.g. { source: 'Agile Practice Guide', location: 'p. 52' }
+export interface QuestionReference {
+  source: string;
+  location?: string;
+}
+
+export interface OptionRationale {
+  key: string;
+  text: string;
+  rationale: string;
+  isCorrect: boolean;
+  isSelected: boolean;
+}
+
+const parseJson = <T>(value: string | null | undefined, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const getRationales = (question: Question): Record<string, string> => {
+  const rationales = parseJson<Record<string, unknown>>(question.rationales, {});
+  if (typeof rationales !== 'object' || Array.isArray(rationales)) return {};
+  return Object.fromEntries(
+    Object.entries(rationales)
+      .filter(([, text]) => typeof text === 'string' && text.trim() !== '')
+      .map(([key, text]) => [key.toUpperCase(), String(text).trim()])
+  );
+};
+
+export const getReferences = (question: Question): QuestionReference[] => {
+  const references = parseJson<unknown[]>(question.references, []);
+  if (!Array.isArray(references)) return [];
+  return references
+    .map(reference => (typeof reference === 'string' ? { source: reference } : reference as QuestionReference))
+    .filter(reference => reference && typeof reference.source === 'string' && reference.source.trim() !== '');
+};
+
+export const formatReference = ({ source, location }: QuestionReference) =>
+  location ? `${source}, ${location}` : source;
+
+// One entry per choice option when the question has rationales; empty for
+// non-choice types and for questions that only have the general explanation
+export const getOptionRationales = (question: Question, selectedAnswer: string | null | undefined): OptionRationale[] => {
+  const type = getQuestionType(question);
+  if (type !== 'single' && type !== 'multiple') return [];
+
+  const rationales = getRationales(question);
+  if (Object.keys(rationales).length === 0) return [];
+
+  const correct = splitKeys(question.correctAnswer.toUpperCase());
+  const selected = splitKeys(selectedAnswer?.toUpperCase());
+  return getChoiceOptions(question)
+    .filter(option => option.text)
+    .map(option => ({
+      ...option,
+      rationale: rationales[option.key] ?? '',
+      isCorrect: correct.includes(option.key),
+      isSelected: selected.includes(option.key),
+    }));
+};
@@ -0,0 +1,41 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface PickedFile {
+  name: string;
+  text: string;
+}
+
+// Null when the user cancels the picker
+export const pickTextFile = async (mimeTypes: string[]): Promise<PickedFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const text = Platform.OS === 'web'
+    ? await (await fetch(asset.uri)).text()
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, text };
+};
+
+// Downloads on web; elsewhere writes to the cache directory and opens the share sheet
+export const shareTextFile = async (fileName: string, contents: string, mimeType: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+};
@@ -0,0 +1,18 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+// Feedback is a nicety: never let a missing motor or an unsupported platform
+// surface as an error
+const hapticsSupported = Platform.OS !== 'web';
+
+export const selectionFeedback = (enabled: boolean) => {
+  if (!enabled || !hapticsSupported) return;
+  Haptics.selectionAsync().catch(() => {});
+};
+
+export const resultFeedback = (enabled: boolean, correct: boolean) => {
+  if (!enabled || !hapticsSupported) return;
+  Haptics.notificationAsync(
+    correct ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+  ).catch(() => {});
+};
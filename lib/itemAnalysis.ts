@@ -0,0 +1,202 @@
+import { Question } from '@/lib/questions';
+import { AnswerRecord } from '@/lib/answers';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { getChoiceOptions, getQuestionType, splitKeys } from '@/lib/questionTypes';
+import { QuestionVersion, affectsGrading } from '@/lib/questionVersions';
+import { saveQuestions } from '@/lib/questionAdmin';
+import { answersRepository, versionsRepository } from '@/lib/repository';
+import { User } from '@/lib/schema';
+import { isAdmin } from '@/lib/moderation';
+
+// Below this many first attempts the numbers are mostly noise
+export const MIN_RESPONSES = 20;
+
+// p-value bands used to suggest a difficulty
+const EASY_P_VALUE = 0.8;
+const HARD_P_VALUE = 0.5;
+
+export type ItemFlag = 'negative_discrimination' | 'unused_distractor';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  negative_discrimination: 'Negative discrimination',
+  unused_distractor: 'Distractor never chosen',
+};
+
+export interface DistractorStat {
+  key: string;
+  text: string;
+  isCorrect: boolean;
+  share: number; // 0–1 of responses that picked this option
+}
+
+export interface ItemStats {
+  question: Question;
+  responses: number;
+  pValue: number | null; // share answered correctly
+  discrimination: number | null; // point-biserial against the rest of each learner's score
+  distractors: DistractorStat[] | null; // choice questions only
+  medianSeconds: number | null;
+  flags: ItemFlag[];
+  suggestedDifficulty: string | null;
+}
+
+type ItemAnswer = Pick<AnswerRecord, 'userId' | 'questionId' | 'selectedAnswer' | 'isCorrect' | 'timeSpentMs' | 'answeredAt'>;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Answers given before the key last changed measure a different item
+const gradingChangedAt = (versions: QuestionVersion[]) => {
+  const changedAt = new Map<string, string>();
+  versions.filter(affectsGrading).forEach(version => {
+    const latest = changedAt.get(version.questionId);
+    if (!latest || version.createdAt > latest) changedAt.set(version.questionId, version.createdAt);
+  });
+  return changedAt;
+};
+
+// Each learner's first attempt per question: later attempts have seen the
+// explanation and would make every item look easy
+const firstAttempts = (answers: ItemAnswer[]) => {
+  const first = new Map<string, ItemAnswer>();
+  answers.forEach(answer => {
+    const key = `${answer.userId}:${answer.questionId}`;
+    const existing = first.get(key);
+    if (!existing || answer.answeredAt < existing.answeredAt) first.set(key, answer);
+  });
+  return Array.from(first.values());
+};
+
+const suggestDifficulty = (pValue: number) =>
+  pValue >= EASY_P_VALUE ? 'easy' : pValue < HARD_P_VALUE ? 'hard' : 'medium';
+
+const analyzeDistractors = (question: Question, answers: ItemAnswer[]): DistractorStat[] | null => {
+  const type = getQuestionType(question);
+  if (type !== 'single' && type !== 'multiple') return null;
+  const correctKeys = splitKeys(question.correctAnswer);
+  const counts = new Map<string, number>();
+  answers.forEach(answer => {
+    splitKeys(answer.selectedAnswer).forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  return getChoiceOptions(question)
+    .filter(option => option.text)
+    .map(option => ({
+      key: option.key,
+      text: option.text,
+      isCorrect: correctKeys.includes(option.key),
+      share: answers.length > 0 ? (counts.get(option.key) || 0) / answers.length : 0
+    }));
+};
+
+// Pure so it can run over any answer set; `versions` only needs the rows
+// that changed grading
+export const analyzeItems = (answers: ItemAnswer[], questions: Question[], versions: QuestionVersion[] = []): ItemStats[] => {
+  const questionMap = new Map(questions.map(question => [question.id, question]));
+  const changedAt = gradingChangedAt(versions);
+  const attempts = firstAttempts(answers.filter(answer => {
+    if (!questionMap.has(answer.questionId)) return false;
+    const since = changedAt.get(answer.questionId);
+    return !since || answer.answeredAt >= since;
+  }));
+
+  const totals = new Map<string, { correct: number; total: number }>();
+  attempts.forEach(answer => {
+    const current = totals.get(answer.userId) || { correct: 0, total: 0 };
+    totals.set(answer.userId, { correct: current.correct + (Number(answer.isCorrect) > 0 ? 1 : 0), total: current.total + 1 });
+  });
+
+  const byQuestion = new Map<string, ItemAnswer[]>();
+  attempts.forEach(answer => {
+    if (!byQuestion.has(answer.questionId)) byQuestion.set(answer.questionId, []);
+    byQuestion.get(answer.questionId)!.push(answer);
+  });
+
+  return questions.map(question => {
+    const itemAnswers = byQuestion.get(question.id) || [];
+    const responses = itemAnswers.length;
+    const enough = responses >= MIN_RESPONSES;
+    const correctCount = itemAnswers.filter(answer => Number(answer.isCorrect) > 0).length;
+    const pValue = responses > 0 ? correctCount / responses : null;
+
+    // Rest score: the learner's accuracy on the other items, so the item
+    // doesn't correlate with itself
+    const scored = itemAnswers.flatMap(answer => {
+      const total = totals.get(answer.userId)!;
+      if (total.total < 2) return [];
+      const correct = Number(answer.isCorrect) > 0 ? 1 : 0;
+      return [{ correct, rest: (total.correct - correct) / (total.total - 1) }];
+    });
+    let discrimination: number | null = null;
+    if (enough && scored.length >= MIN_RESPONSES) {
+      const mean = scored.reduce((sum, item) => sum + item.rest, 0) / scored.length;
+      const sd = Math.sqrt(scored.reduce((sum, item) => sum + (item.rest - mean) ** 2, 0) / scored.length);
+      const right = scored.filter(item => item.correct === 1);
+      const wrong = scored.filter(item => item.correct === 0);
+      if (sd > 0 && right.length > 0 && wrong.length > 0) {
+        const p = right.length / scored.length;
+        const meanRight = right.reduce((sum, item) => sum + item.rest, 0) / right.length;
+        const meanWrong = wrong.reduce((sum, item) => sum + item.rest, 0) / wrong.length;
+        discrimination = ((meanRight - meanWrong) / sd) * Math.sqrt(p * (1 - p));
+      }
+    }
+
+    const distractors = analyzeDistractors(question, itemAnswers);
+    const times = itemAnswers
+      .map(answer => Number(answer.timeSpentMs))
+      .filter(ms => ms > 0)
+      .map(ms => ms / 1000);
+    const medianTime = median(times);
+
+    const flags: ItemFlag[] = [];
+    if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination');
+    if (enough && distractors?.some(option => !option.isCorrect && option.share === 0)) flags.push('unused_distractor');
+
+    return {
+      question,
+      responses,
+      pValue,
+      discrimination,
+      distractors,
+      medianSeconds: medianTime === null ? null : Math.round(medianTime),
+      flags,
+      suggestedDifficulty: enough && pValue !== null ? suggestDifficulty(pValue) : null
+    };
+  });
+};
+
+// Over every learner's answers, so it refuses to load for anyone but an
+// admin; questions in circulation only. Flagged items come first, then the
+// least discriminating.
+export const loadItemAnalysis = async (user: Pick<User, 'role'>): Promise<ItemStats[]> => {
+  if (!isAdmin(user)) throw new Error('Only admins can load item statistics');
+  const [answers, questions] = await Promise.all([
+    answersRepository.listAll({ orderBy: { answeredAt: 'asc' } }, { fresh: true }),
+    loadQuestionBank()
+  ]);
+  const edited = questions.filter(question => question.versionId).map(question => question.id);
+  const versions = edited.length === 0 ? [] : await versionsRepository.listAll(
+    { where: { questionId: { in: edited } }, orderBy: { id: 'asc' } },
+    { fresh: true }
+  );
+
+  return analyzeItems(answers, questions, versions).sort((a, b) =>
+    b.flags.length - a.flags.length ||
+    (a.discrimination ?? Infinity) - (b.discrimination ?? Infinity) ||
+    b.responses - a.responses
+  );
+};
+
+// Items whose p-value points at a different difficulty than the one stored
+export const listDifficultyChanges = (items: ItemStats[]) =>
+  items.filter(item => item.suggestedDifficulty && item.suggestedDifficulty !== item.question.difficulty);
+
+// Writes through the admin save path, so each change lands in the version history
+export const applySuggestedDifficulties = (items: ItemStats[], adminId: string) =>
+  saveQuestions(listDifficultyChanges(items).map(item => ({
+    previous: item.question,
+    question: { ...item.question, difficulty: item.suggestedDifficulty! }
+  })), adminId);
@@ -0,0 +1,19 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// JSON values persisted on the device, namespaced so they never collide with
+// anything else the app (or a library) keeps in AsyncStorage
+const KEY_PREFIX = 'pmp:';
+
+export const readLocal = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await AsyncStorage.getItem(KEY_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Error reading local ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const writeLocal = async (key: string, value: unknown) => {
+  await AsyncStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+};
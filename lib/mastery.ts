@@ -0,0 +1,224 @@
+import { Question } from '@/lib/questions';
+import { AnswerRecord } from '@/lib/answers';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { loadVersionLookup } from '@/lib/questionVersions';
+import { answersRepository } from '@/lib/repository';
+import { ECO_DOMAINS } from '@/lib/sessionConfig';
+import { QuestionLookup } from '@/lib/stats';
+import { addDays, localDateKey } from '@/lib/streak';
+
+export const HEATMAP_WEEKS = 8;
+
+// Share of last week's evidence still counted this week, so an area studied
+// long ago fades back towards "unknown" rather than keeping an old score
+const WEEKLY_DECAY = 0.8;
+
+export interface MasteryCell {
+  weekStart: string; // date key of the Monday
+  answered: number; // answers given that week
+  correct: number;
+  mastery: number | null; // 0–1, null before the first answer in the window
+}
+
+export interface MasteryRow {
+  name: string; // knowledge area, or the domain for a domain row
+  cells: MasteryCell[];
+}
+
+export interface DomainMastery extends MasteryRow {
+  areas: MasteryRow[];
+}
+
+export interface MasteryGrid {
+  weeks: string[];
+  domains: DomainMastery[];
+}
+
+type TimedAnswer = Pick<AnswerRecord, 'questionId' | 'isCorrect' | 'answeredAt'> & { questionVersionId?: string | null };
+
+// Weeks start on Monday, in local time like the streak
+export const weekStartKey = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return addDays(dateKey, -((weekday + 6) % 7));
+};
+
+export const heatmapWeeks = (today = localDateKey(), weekCount = HEATMAP_WEEKS) => {
+  const current = weekStartKey(today);
+  return Array.from({ length: weekCount }, (_, index) => addDays(current, (index - weekCount + 1) * 7));
+};
+
+// Lower end of a one-standard-deviation band around the Beta posterior mean
+// (uniform prior): two right answers out of two is promising, not mastery
+export const estimateMastery = (correct: number, total: number) => {
+  if (total <= 0) return null;
+  const a = 1 + correct;
+  const b = 1 + (total - correct);
+  const mean = a / (a + b);
+  const sd = Math.sqrt((a * b) / ((a + b) ** 2 * (a + b + 1)));
+  return Math.max(0, mean - sd);
+};
+
+const toCells = (weeks: string[], counts: { answered: number; correct: number }[]): MasteryCell[] => {
+  let correct = 0;
+  let total = 0;
+  return weeks.map((weekStart, index) => {
+    const week = counts[index];
+    correct = correct * WEEKLY_DECAY + week.correct;
+    total = total * WEEKLY_DECAY + week.answered;
+    return { weekStart, answered: week.answered, correct: week.correct, mastery: estimateMastery(correct, total) };
+  });
+};
+
+// Two domains can have a task of the same name, so areas are always keyed
+// together with their domain
+const areaKey = (domain: string, knowledgeArea: string) => `${domain}\u0000${knowledgeArea}`;
+
+const emptyCounts = (weeks: string[]) => weeks.map(() => ({ answered: 0, correct: 0 }));
+
+// Weekly answer counts for each group the lookup puts an answer in
+const countByWeek = (
+  answers: TimedAnswer[],
+  weeks: string[],
+  groupFor: (answer: TimedAnswer) => string | undefined
+) => {
+  const weekIndex = new Map(weeks.map((week, index) => [week, index]));
+  const counts = new Map<string, { answered: number; correct: number }[]>();
+  answers.forEach(answer => {
+    const group = groupFor(answer);
+    const index = weekIndex.get(weekStartKey(localDateKey(new Date(answer.answeredAt))));
+    if (!group || index === undefined) return;
+    if (!counts.has(group)) counts.set(group, emptyCounts(weeks));
+    const week = counts.get(group)![index];
+    week.answered += 1;
+    week.correct += Number(answer.isCorrect) > 0 ? 1 : 0;
+  });
+  return counts;
+};
+
+// Domains in ECO order with their tasks (knowledge areas) alphabetically;
+// areas in the bank with no answers yet still get an empty row
+export const buildMasteryHeatmap = (
+  answers: TimedAnswer[],
+  questionFor: QuestionLookup,
+  questions: Question[],
+  today = localDateKey(),
+  weekCount = HEATMAP_WEEKS
+): MasteryGrid => {
+  const weeks = heatmapWeeks(today, weekCount);
+  const byArea = countByWeek(answers, weeks, answer => {
+    const question = questionFor(answer);
+    return question?.knowledgeArea ? areaKey(question.category, question.knowledgeArea) : undefined;
+  });
+  const byDomain = countByWeek(answers, weeks, answer => questionFor(answer)?.category);
+
+  const areasByDomain = new Map<string, Set<string>>();
+  const addArea = (question: Question | undefined) => {
+    if (!question?.knowledgeArea) return;
+    if (!areasByDomain.has(question.category)) areasByDomain.set(question.category, new Set());
+    areasByDomain.get(question.category)!.add(question.knowledgeArea);
+  };
+  questions.forEach(addArea);
+  answers.forEach(answer => addArea(questionFor(answer)));
+
+  const domains = [...ECO_DOMAINS, ...Array.from(areasByDomain.keys()).filter(domain => !ECO_DOMAINS.includes(domain))]
+    .filter(domain => areasByDomain.has(domain))
+    .map(domain => ({
+      name: domain,
+      cells: toCells(weeks, byDomain.get(domain) ?? emptyCounts(weeks)),
+      areas: Array.from(areasByDomain.get(domain)!).sort().map(area => ({
+        name: area,
+        cells: toCells(weeks, byArea.get(areaKey(domain, area)) ?? emptyCounts(weeks))
+      }))
+    }));
+
+  return { weeks, domains };
+};
+
+export const MASTERY_BANDS = [
+  { min: 0.75, color: '#10B981', label: 'Mastered' },
+  { min: 0.6, color: '#A7F3D0', label: 'Solid' },
+  { min: 0.4, color: '#FDE68A', label: 'Building' },
+  { min: 0, color: '#FECACA', label: 'Weak' },
+];
+
+export const NO_DATA_COLOR = '#F1F5F9';
+
+export const masteryColor = (mastery: number | null) =>
+  mastery === null ? NO_DATA_COLOR : MASTERY_BANDS.find(band => mastery >= band.min)!.color;
+
+const windowStartIso = (weeks: string[]) => {
+  const [y, m, d] = weeks[0].split('-').map(Number);
+  return new Date(y, m - 1, d).toISOString();
+};
+
+const loadAnswers = (userId: string, where: Record<string, any>) =>
+  answersRepository.listAll({ where: { userId, ...where }, orderBy: { answeredAt: 'desc' } });
+
+export const loadMasteryHeatmap = async (userId: string): Promise<MasteryGrid> => {
+  const weeks = heatmapWeeks();
+  const [answers, questions] = await Promise.all([
+    loadAnswers(userId, { answeredAt: { gte: windowStartIso(weeks) } }),
+    loadQuestionBank()
+  ]);
+  const questionFor = await loadVersionLookup(answers, questions);
+  return buildMasteryHeatmap(answers, questionFor, questions);
+};
+
+export interface AreaQuestion {
+  question: Question;
+  attempts: number;
+  correct: number;
+  lastAnsweredAt: string | null;
+  lastCorrect: boolean | null;
+}
+
+export interface AreaHistory {
+  knowledgeArea: string;
+  domain: string;
+  cells: MasteryCell[];
+  questions: AreaQuestion[];
+}
+
+// One knowledge area in detail: the weekly trend behind its heatmap row and
+// every question in it with the learner's attempts, most missed first
+export const loadAreaHistory = async (userId: string, domain: string, knowledgeArea: string): Promise<AreaHistory> => {
+  const weeks = heatmapWeeks();
+  const inThisArea = (question: Question | undefined) =>
+    question?.category === domain && question.knowledgeArea === knowledgeArea;
+  const questions = (await loadQuestionBank()).filter(inThisArea);
+  const answers = questions.length === 0 ? [] : await loadAnswers(userId, {
+    questionId: { in: questions.map(question => question.id) }
+  });
+  const questionFor = await loadVersionLookup(answers, questions);
+  const inArea = answers.filter(answer => inThisArea(questionFor(answer)));
+
+  const counts = countByWeek(inArea, weeks, () => knowledgeArea).get(knowledgeArea) ?? emptyCounts(weeks);
+  const byQuestion = new Map<string, TimedAnswer[]>();
+  inArea.forEach(answer => {
+    if (!byQuestion.has(answer.questionId)) byQuestion.set(answer.questionId, []);
+    byQuestion.get(answer.questionId)!.push(answer);
+  });
+
+  const areaQuestions = questions.map(question => {
+    // Answers come newest first
+    const attempts = byQuestion.get(question.id) ?? [];
+    return {
+      question,
+      attempts: attempts.length,
+      correct: attempts.filter(answer => Number(answer.isCorrect) > 0).length,
+      lastAnsweredAt: attempts[0]?.answeredAt ?? null,
+      lastCorrect: attempts[0] ? Number(attempts[0].isCorrect) > 0 : null
+    };
+  }).sort((a, b) =>
+    (b.attempts - b.correct) - (a.attempts - a.correct) ||
+    b.attempts - a.attempts
+  );
+
+  return {
+    knowledgeArea,
+    domain,
+    cells: toCells(weeks, counts),
+    questions: areaQuestions
+  };
+};
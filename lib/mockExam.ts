@@ -0,0 +1,35 @@
+// Mirrors the PMI exam format: 180 items in 230 minutes, split into three
+// sections with an optional 10-minute break after each of the first two.
+export const MOCK_EXAM = {
+  questionCount: 180,
+  durationMinutes: 230,
+  breakAfter: [60, 120],
+  breakMinutes: 10,
+};
+
+// Time budget per item on the real exam (~76.7 seconds)
+export const EXAM_SECONDS_PER_QUESTION = (MOCK_EXAM.durationMinutes * 60) / MOCK_EXAM.questionCount;
+
+export interface ExamSection {
+  start: number;
+  end: number; // exclusive
+}
+
+// Sections for a given number of loaded questions; short banks get fewer breaks
+export const getExamSections = (questionCount: number): ExamSection[] => {
+  const boundaries = MOCK_EXAM.breakAfter.filter(index => index < questionCount);
+  const starts = [0, ...boundaries];
+  return starts.map((start, i) => ({
+    start,
+    end: boundaries[i] ?? questionCount,
+  }));
+};
+
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
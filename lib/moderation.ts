@@ -0,0 +1,97 @@
+import { Question } from '@/lib/questions';
+import { User } from '@/lib/schema';
+import { queueUpserts } from '@/lib/outbox';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { saveQuestion } from '@/lib/questionAdmin';
+import { reportsRepository } from '@/lib/repository';
+import { createId } from '@/lib/sessions';
+
+export type UserRole = 'user' | 'admin';
+
+export type ReportReason = 'wrong_answer' | 'wrong_explanation' | 'outdated' | 'unclear' | 'other';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export const REPORT_REASONS: ReportReason[] = ['wrong_answer', 'wrong_explanation', 'outdated', 'unclear', 'other'];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  wrong_answer: 'Wrong answer',
+  wrong_explanation: 'Wrong explanation',
+  outdated: 'Outdated for current ECO',
+  unclear: 'Unclear or typo',
+  other: 'Other',
+};
+
+// Row shape of the `questionReports` table
+export interface QuestionReport {
+  id: string;
+  userId: string;
+  questionId: string;
+  reason: ReportReason;
+  comment: string;
+  status: ReportStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface ReportedQuestion {
+  question: Question;
+  reports: QuestionReport[];
+}
+
+export type QuestionEdit = Pick<Question, 'questionText' | 'correctAnswer' | 'explanation'>;
+
+// The server enforces who may moderate; this only decides what to show
+export const isAdmin = (user: Pick<User, 'role'> | null) => user?.role === 'admin';
+
+// Queued like answers, so a report filed offline still gets through
+export const submitReport = async (userId: string, questionId: string, reason: ReportReason, comment: string) => {
+  await queueUpserts('questionReports', [{
+    id: createId('report'),
+    userId,
+    questionId,
+    reason,
+    comment: comment.trim(),
+    status: 'open',
+    createdAt: new Date().toISOString(),
+    resolvedAt: null,
+    resolvedBy: null
+  }]);
+};
+
+// Open reports grouped by question, most reported first
+export const loadModerationQueue = async (): Promise<ReportedQuestion[]> => {
+  const [reports, bank] = await Promise.all([
+    reportsRepository.listAll({ where: { status: 'open' }, orderBy: { createdAt: 'asc' } }, { fresh: true }),
+    loadQuestionBank({ includeRetired: true })
+  ]);
+  const questionMap = new Map(bank.map(question => [question.id, question]));
+  const grouped = new Map<string, QuestionReport[]>();
+  reports.forEach(report => {
+    grouped.set(report.questionId, [...(grouped.get(report.questionId) || []), report]);
+  });
+
+  return Array.from(grouped.entries())
+    .filter(([questionId]) => questionMap.has(questionId))
+    .map(([questionId, questionReports]) => ({ question: questionMap.get(questionId)!, reports: questionReports }))
+    .sort((a, b) => b.reports.length - a.reports.length);
+};
+
+// Moderation happens online: these write straight through rather than queueing
+const closeReports = (reports: QuestionReport[], status: Exclude<ReportStatus, 'open'>, adminId: string) => {
+  const resolvedAt = new Date().toISOString();
+  return reportsRepository.upsertMany(reports.map(report => ({ ...report, status, resolvedAt, resolvedBy: adminId })));
+};
+
+export const dismissReports = (reports: QuestionReport[], adminId: string) =>
+  closeReports(reports, 'dismissed', adminId);
+
+export const editReportedQuestion = async (item: ReportedQuestion, changes: QuestionEdit, adminId: string) => {
+  await saveQuestion({ ...item.question, ...changes }, item.question, adminId);
+  await closeReports(item.reports, 'resolved', adminId);
+};
+
+export const retireReportedQuestion = async (item: ReportedQuestion, adminId: string) => {
+  await saveQuestion({ ...item.question, retired: 1 }, item.question, adminId);
+  await closeReports(item.reports, 'resolved', adminId);
+};
@@ -0,0 +1,134 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { StudySession, TableName, TableRows } from '@/lib/schema';
+import { readLocal, writeLocal } from '@/lib/localStore';
+import { AuthUser, answersRepository, getRepository } from '@/lib/repository';
+import { AnswerRecord } from '@/lib/answers';
+import { SessionResult, StudySessionWrite, applyStudySession, createId, toSessionRow } from '@/lib/sessions';
+import { localDateKey } from '@/lib/streak';
+
+// Writes waiting to reach Blink, replayed oldest first. Every row carries its
+// own id and is written with upsert, so replaying an entry that already
+// landed (e.g. the app died before it was dequeued) is harmless. Answers are
+// the exception: once landed they get stamped when folded into the stats
+// aggregates, so a replay only writes the ones that haven't landed yet.
+type OutboxEntry =
+  | { id: string; kind: 'upsert'; table: TableName; rows: TableRows[TableName][]; queuedAt: string }
+  | { id: string; kind: 'studySession'; write: StudySessionWrite; queuedAt: string };
+
+const OUTBOX_KEY = 'outbox';
+
+// Serializes read-modify-write cycles on the stored queue
+let queueLock: Promise<unknown> = Promise.resolve();
+const withQueue = <T>(task: (entries: OutboxEntry[]) => Promise<T>): Promise<T> => {
+  const run = queueLock.then(async () => task(await readLocal<OutboxEntry[]>(OUTBOX_KEY, [])));
+  queueLock = run.catch(() => {});
+  return run;
+};
+
+const enqueue = async (entry: OutboxEntry) => {
+  await withQueue(entries => writeLocal(OUTBOX_KEY, [...entries, entry]));
+  // Don't hold up the caller on a slow or missing connection
+  replayOutbox();
+};
+
+export const queueUpserts = async <K extends TableName>(table: K, rows: TableRows[K][]) => {
+  if (rows.length === 0) return;
+  await enqueue({ id: createId('outbox'), kind: 'upsert', table, rows, queuedAt: new Date().toISOString() });
+};
+
+// sessionId is created by the caller so the session's answers can carry it too
+export const queueStudySession = async (sessionId: string, user: AuthUser, result: SessionResult) => {
+  const completedAt = new Date().toISOString();
+  await enqueue({
+    id: createId('outbox'),
+    kind: 'studySession',
+    write: {
+      sessionId,
+      user: { id: user.id, email: user.email, displayName: user.displayName },
+      result,
+      completedAt,
+      studyDay: localDateKey()
+    },
+    queuedAt: completedAt
+  });
+};
+
+export const countPendingWrites = async () =>
+  (await readLocal<OutboxEntry[]>(OUTBOX_KEY, [])).length;
+
+// Queued writes are readable too, so screens can show a session before it has synced
+export const listPendingRows = async <K extends TableName>(table: K): Promise<TableRows[K][]> => {
+  const entries = await readLocal<OutboxEntry[]>(OUTBOX_KEY, []);
+  return entries.flatMap(entry => (entry.kind === 'upsert' && entry.table === table ? entry.rows as TableRows[K][] : []));
+};
+
+export const listPendingSessions = async (): Promise<StudySession[]> => {
+  const entries = await readLocal<OutboxEntry[]>(OUTBOX_KEY, []);
+  return entries.flatMap(entry => (entry.kind === 'studySession' ? [toSessionRow(entry.write)] : []));
+};
+
+export const findPendingSession = async (sessionId: string) =>
+  (await listPendingSessions()).find(session => session.id === sessionId) ?? null;
+
+const applyEntry = async (entry: OutboxEntry) => {
+  if (entry.kind === 'upsert' && entry.table === 'userAnswers') {
+    const ids = entry.rows.map(row => row.id);
+    const landed = new Set((await answersRepository.list(
+      { where: { id: { in: ids } }, limit: ids.length },
+      { fresh: true }
+    )).map(answer => answer.id));
+    await answersRepository.upsertMany((entry.rows as AnswerRecord[]).filter(answer => !landed.has(answer.id)));
+  } else if (entry.kind === 'upsert') {
+    await getRepository(entry.table).upsertMany(entry.rows);
+  } else {
+    await applyStudySession(entry.write);
+  }
+};
+
+let replaying: Promise<void> | null = null;
+
+// Stops at the first failure so later writes never overtake earlier ones
+const drain = async () => {
+  while (true) {
+    const [next] = await readLocal<OutboxEntry[]>(OUTBOX_KEY, []);
+    if (!next) return;
+
+    try {
+      await applyEntry(next);
+    } catch (error) {
+      console.error('Outbox replay paused:', error);
+      return;
+    }
+
+    await withQueue(entries => writeLocal(OUTBOX_KEY, entries.filter(entry => entry.id !== next.id)));
+  }
+};
+
+export const replayOutbox = () => {
+  if (!replaying) {
+    replaying = drain().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
+
+// Replays whenever connectivity returns or the app comes back to the foreground
+export const startOutboxSync = () => {
+  replayOutbox();
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      replayOutbox();
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') replayOutbox();
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,84 @@
+import { Appearance, Platform } from 'react-native';
+import { readLocal, writeLocal } from '@/lib/localStore';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings } from '@/lib/reminders';
+import { daysBetween, localDateKey } from '@/lib/streak';
+import { DEFAULT_SESSION_CONFIG } from '@/lib/sessionConfig';
+
+export type ExplanationMode = 'immediate' | 'end';
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+// Per-user settings kept on the device. The daily goal is the exception: it
+// lives on the user row because finishing a session on any device checks it.
+export interface Preferences {
+  examDate: string | null; // YYYY-MM-DD
+  weeklyHours: number | null;
+  studyPlanStart: string | null; // reset whenever the exam date changes
+  questionsPerSession: number;
+  explanationMode: ExplanationMode;
+  haptics: boolean;
+  theme: ThemePreference;
+  reminders: ReminderSettings;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  examDate: null,
+  weeklyHours: null,
+  studyPlanStart: null,
+  questionsPerSession: DEFAULT_SESSION_CONFIG.questionCount,
+  explanationMode: 'end',
+  haptics: true,
+  theme: 'system',
+  reminders: DEFAULT_REMINDER_SETTINGS,
+};
+
+export const EXPLANATION_MODE_LABELS: Record<ExplanationMode, string> = {
+  immediate: 'After each question',
+  end: 'At the end',
+};
+
+export const THEME_LABELS: Record<ThemePreference, string> = {
+  system: 'System',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+const preferencesKey = (userId: string) => `preferences:${userId}`;
+
+// Stored preferences may predate newer fields, so merge over the defaults
+export const loadPreferences = async (userId: string): Promise<Preferences> => {
+  const stored = await readLocal<Partial<Preferences>>(preferencesKey(userId), {});
+  return {
+    ...DEFAULT_PREFERENCES,
+    ...stored,
+    reminders: { ...DEFAULT_REMINDER_SETTINGS, ...stored.reminders },
+  };
+};
+
+export const savePreferences = (userId: string, preferences: Preferences) =>
+  writeLocal(preferencesKey(userId), preferences);
+
+export const isValidDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+// Null without an exam date; negative once the date has passed
+export const daysUntilExam = (preferences: Preferences, today = localDateKey()) =>
+  preferences.examDate ? daysBetween(today, preferences.examDate) : null;
+
+export const describeExamCountdown = (days: number | null) => {
+  if (days === null || days < 0) return null;
+  if (days === 0) return 'Exam day. Good luck!';
+  if (days === 1) return 'Your exam is tomorrow';
+  return `${days} days until your exam`;
+};
+
+// Overrides the device appearance for native controls such as switches,
+// pickers and the keyboard; 'system' hands it back to the device. Web has no
+// setColorScheme, so there it's a no-op.
+export const applyTheme = (theme: ThemePreference) => {
+  if (Platform.OS === 'web') return;
+  try {
+    Appearance.setColorScheme(theme === 'system' ? null : theme);
+  } catch (error) {
+    console.error('Error applying theme:', error);
+  }
+};
@@ -0,0 +1,115 @@
+import { Question } from '@/lib/questions';
+import { isRetired } from '@/lib/questionBank';
+import { validateQuestionShape } from '@/lib/questionTypes';
+import { QuestionChange, recordQuestionVersions } from '@/lib/questionVersions';
+import { questionsRepository } from '@/lib/repository';
+import { ECO_DOMAINS } from '@/lib/sessionConfig';
+import { createId } from '@/lib/sessions';
+
+export type RetiredFilter = 'active' | 'retired' | 'all';
+
+export const RETIRED_FILTER_LABELS: Record<RetiredFilter, string> = {
+  active: 'In circulation',
+  retired: 'Retired',
+  all: 'All',
+};
+
+// Empty strings mean "any", like the empty lists in SessionConfig
+export interface QuestionFilter {
+  search: string;
+  category: string;
+  knowledgeArea: string;
+  difficulty: string;
+  retired: RetiredFilter;
+}
+
+export const DEFAULT_QUESTION_FILTER: QuestionFilter = {
+  search: '',
+  category: '',
+  knowledgeArea: '',
+  difficulty: '',
+  retired: 'active',
+};
+
+// Search matches the question text, options, explanation and id
+export const filterQuestions = (questions: Question[], filter: QuestionFilter) => {
+  const terms = filter.search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return questions.filter(question => {
+    if (filter.category && question.category !== filter.category) return false;
+    if (filter.knowledgeArea && question.knowledgeArea !== filter.knowledgeArea) return false;
+    if (filter.difficulty && question.difficulty !== filter.difficulty) return false;
+    if (filter.retired !== 'all' && isRetired(question) !== (filter.retired === 'retired')) return false;
+    if (terms.length === 0) return true;
+
+    const haystack = [
+      question.id,
+      question.questionText,
+      question.optionA,
+      question.optionB,
+      question.optionC,
+      question.optionD,
+      question.explanation,
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const createBlankQuestion = (): Question => ({
+  id: createId('question'),
+  questionText: '',
+  optionA: '',
+  optionB: '',
+  optionC: '',
+  optionD: '',
+  correctAnswer: '',
+  explanation: '',
+  rationales: null,
+  references: null,
+  category: ECO_DOMAINS[0],
+  knowledgeArea: '',
+  difficulty: 'medium',
+  questionType: 'single',
+  payload: null,
+  retired: 0,
+  versionId: null,
+});
+
+// Same rules as an imported row
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const validateQuestionDraft = (question: Question): string[] => {
+  const messages: string[] = [];
+  if (!question.questionText.trim()) messages.push('Question text is required');
+  if (!question.knowledgeArea.trim()) messages.push('Knowledge area is required');
+  if (!question.correctAnswer.trim()) messages.push('Correct answer is required');
+  if (question.rationales && !isJson(question.rationales)) messages.push('Rationales are not valid JSON');
+  if (question.references && !isJson(question.references)) messages.push('References are not valid JSON');
+  return [...messages, ...validateQuestionShape(question)];
+};
+
+// Every admin write goes through here so the version history stays complete.
+// Versions are written first: a version without its question is harmless, a
+// question pointing at a missing version is not.
+export const saveQuestions = async (changes: QuestionChange[], adminId: string) => {
+  if (changes.length === 0) return [];
+  const versioned = await recordQuestionVersions(changes, adminId);
+  await questionsRepository.upsertMany(versioned);
+  return versioned;
+};
+
+export const saveQuestion = async (question: Question, previous: Question | null, adminId: string) =>
+  (await saveQuestions([{ question, previous }], adminId))[0];
+
+export type BulkChanges = Partial<Pick<Question, 'retired' | 'difficulty' | 'category'>>;
+
+export const bulkUpdateQuestions = async (questions: Question[], changes: BulkChanges, adminId: string) => {
+  const updated = questions.map(previous => ({ previous, question: { ...previous, ...changes } }));
+  return saveQuestions(updated, adminId);
+};
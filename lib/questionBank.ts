@@ -0,0 +1,26 @@
+import { Question } from '@/lib/questions';
+import { readLocal, writeLocal } from '@/lib/localStore';
+import { questionsRepository } from '@/lib/repository';
+
+const CACHE_KEY = 'questionBank';
+
+export const isRetired = (question: Pick<Question, 'retired'>) => Number(question.retired) > 0;
+
+// The whole bank is small enough to keep on the device. Fresh copy from Blink
+// when reachable (refreshing the cache), otherwise the
+// copy from the last successful load so sessions can start offline. Retired
+// questions are left out unless asked for, e.g. to review past answers.
+export const loadQuestionBank = async ({ includeRetired = false } = {}): Promise<Question[]> => {
+  const inCirculation = (questions: Question[]) =>
+    includeRetired ? questions : questions.filter(question => !isRetired(question));
+  try {
+    const questions = await questionsRepository.listAll({ orderBy: { id: 'asc' } });
+    if (questions.length > 0) {
+      await writeLocal(CACHE_KEY, questions);
+      return inCirculation(questions);
+    }
+  } catch (error) {
+    console.error('Error fetching question bank, using cached copy:', error);
+  }
+  return inCirculation(await readLocal<Question[]>(CACHE_KEY, []));
+};
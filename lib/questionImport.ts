@@ -0,0 +1,254 @@
+import { Question } from '@/lib/questions';
+import { QUESTION_TYPES, validateQuestionShape } from '@/lib/questionTypes';
+import { DIFFICULTIES, ECO_DOMAINS } from '@/lib/sessionConfig';
+import { createId } from '@/lib/sessions';
+
+export type QuestionFileFormat = 'csv' | 'json';
+
+// Column order for CSV export, and the columns an import must provide
+export const QUESTION_COLUMNS: (keyof Question)[] = [
+  'id',
+  'questionText',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctAnswer',
+  'explanation',
+  'rationales',
+  'references',
+  'category',
+  'knowledgeArea',
+  'difficulty',
+  'questionType',
+  'payload',
+  'retired',
+];
+
+// Optional so files from before question types and rationales existed still
+// import, as single-choice questions with just the general explanation
+const OPTIONAL_COLUMNS: (keyof Question)[] = ['id', 'questionType', 'payload', 'rationales', 'references', 'retired'];
+const REQUIRED_COLUMNS = QUESTION_COLUMNS.filter(column => !OPTIONAL_COLUMNS.includes(column));
+
+// Options only matter for choice questions; validateQuestionShape checks them per type
+const OPTION_COLUMNS: (keyof Question)[] = ['optionA', 'optionB', 'optionC', 'optionD'];
+
+// A question as read from the file, before validation
+export interface SourceRecord {
+  row: number; // CSV: the line the record starts on; JSON: 1-based position in the array
+  values: Record<string, any>;
+}
+
+export interface RowError {
+  row: number; // see SourceRecord
+  messages: string[];
+}
+
+export interface ImportReport {
+  valid: Question[];
+  duplicates: { row: number; questionText: string; reason: string }[];
+  errors: RowError[];
+}
+
+export const detectFormat = (fileName: string): QuestionFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  return null;
+};
+
+export interface CsvRow {
+  line: number; // 1-based line the row starts on
+  cells: string[];
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+// Blank rows are dropped, so each row keeps the line it started on.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+};
+
+const csvToRecords = (text: string): SourceRecord[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.cells.map(column => column.trim());
+  return rows.map(({ line, cells }) => ({
+    row: line,
+    values: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  }));
+};
+
+// Throws on a file that can't be read at all; row-level problems are reported
+// by validateQuestionRecords instead
+export const parseQuestionFile = (text: string, format: QuestionFileFormat): SourceRecord[] => {
+  if (format === 'csv') {
+    const records = csvToRecords(text);
+    const missing = REQUIRED_COLUMNS.filter(column => records.length > 0 && !(column in records[0].values));
+    if (missing.length > 0) throw new Error(`Missing columns: ${missing.join(', ')}`);
+    return records;
+  }
+
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed?.questions;
+  if (!Array.isArray(records)) throw new Error('Expected an array of questions');
+  return records.map((values, index) => ({ row: index + 1, values }));
+};
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const validateRecord = (record: Record<string, any>): { question?: Question; messages: string[] } => {
+  if (!record || typeof record !== 'object') return { messages: ['Not an object'] };
+
+  const value = (column: keyof Question) => String(record[column] ?? '').trim();
+  const messages = REQUIRED_COLUMNS
+    .filter(column => column !== 'explanation' && !OPTION_COLUMNS.includes(column) && !value(column))
+    .map(column => `${column} is required`);
+
+  const questionType = (value('questionType').toLowerCase() || 'single') as Question['questionType'];
+  if (!QUESTION_TYPES.includes(questionType)) {
+    messages.push(`questionType must be one of ${QUESTION_TYPES.join(', ')}`);
+  }
+  // JSON files may give these as objects rather than strings
+  const jsonValue = (column: keyof Question) => record[column] && typeof record[column] === 'object'
+    ? JSON.stringify(record[column])
+    : value(column) || null;
+  const payload = jsonValue('payload');
+  const rationales = jsonValue('rationales');
+  const references = jsonValue('references');
+  if (rationales && !isJson(rationales)) messages.push('rationales is not valid JSON');
+  if (references && !isJson(references)) messages.push('references is not valid JSON');
+  const rawAnswer = value('correctAnswer');
+  const correctAnswer = questionType === 'single' || questionType === 'multiple'
+    ? rawAnswer.toUpperCase().replace(/\s+/g, '')
+    : rawAnswer;
+  const difficulty = value('difficulty').toLowerCase();
+  if (difficulty && !DIFFICULTIES.includes(difficulty)) {
+    messages.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  const category = ECO_DOMAINS.find(domain => domain.toLowerCase() === value('category').toLowerCase());
+  if (value('category') && !category) {
+    messages.push(`category must be one of ${ECO_DOMAINS.join(', ')}`);
+  }
+
+  if (messages.length > 0) return { messages };
+
+  const question: Question = {
+    id: value('id') || createId('question'),
+    questionText: value('questionText'),
+    optionA: value('optionA'),
+    optionB: value('optionB'),
+    optionC: value('optionC'),
+    optionD: value('optionD'),
+    correctAnswer,
+    explanation: value('explanation'),
+    rationales,
+    references,
+    category: category!,
+    knowledgeArea: value('knowledgeArea'),
+    difficulty,
+    questionType,
+    payload,
+    retired: ['1', 'true', 'yes'].includes(value('retired').toLowerCase()) ? 1 : 0,
+    versionId: null,
+  };
+  const shapeMessages = validateQuestionShape(question);
+  if (shapeMessages.length > 0) return { messages: shapeMessages };
+
+  return { messages, question };
+};
+
+// A row is a duplicate if its id or its question text (ignoring case and
+// spacing) is already in the bank or earlier in the same file
+export const validateQuestionRecords = (records: SourceRecord[], bank: Question[]): ImportReport => {
+  const report: ImportReport = { valid: [], duplicates: [], errors: [] };
+  const seenIds = new Set(bank.map(question => question.id));
+  const seenTexts = new Set(bank.map(question => normalizeText(question.questionText)));
+
+  records.forEach(({ row, values }) => {
+    const { question, messages } = validateRecord(values);
+    if (!question) {
+      report.errors.push({ row, messages });
+      return;
+    }
+
+    const text = normalizeText(question.questionText);
+    if (seenIds.has(question.id)) {
+      report.duplicates.push({ row, questionText: question.questionText, reason: `id ${question.id} already exists` });
+    } else if (seenTexts.has(text)) {
+      report.duplicates.push({ row, questionText: question.questionText, reason: 'same question text already exists' });
+    } else {
+      seenIds.add(question.id);
+      seenTexts.add(text);
+      report.valid.push(question);
+    }
+  });
+
+  return report;
+};
+
+const escapeCsv = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportQuestions = (questions: Question[], format: QuestionFileFormat) => {
+  if (format === 'json') {
+    return JSON.stringify(questions.map(question =>
+      Object.fromEntries(QUESTION_COLUMNS.map(column => [column, question[column]]))
+    ), null, 2);
+  }
+  return [
+    QUESTION_COLUMNS.join(','),
+    ...questions.map(question => QUESTION_COLUMNS.map(column => escapeCsv(question[column])).join(',')),
+  ].join('\r\n');
+};
@@ -0,0 +1,238 @@
+import { ANSWER_KEYS, Question, QuestionType } from '@/lib/questions';
+
+// Responses are always stored as a single string (the `selectedAnswer`
+// column), and `correctAnswer` holds the correct response in the same format:
+//   single    "B"
+//   multiple  "A,C"        (letters, in any order)
+//   matching  "2,0,1"      (chosen choice index for each prompt, in order)
+//   hotspot   "region-id"  (several ids separated by commas are all accepted)
+//   fill_in   "42.5"       (alternatives separated by "|")
+
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'matching', 'hotspot', 'fill_in'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single Choice',
+  multiple: 'Multiple Response',
+  matching: 'Matching',
+  hotspot: 'Hotspot',
+  fill_in: 'Fill in the Blank',
+};
+
+export interface ChoicePayload {
+  options?: string[]; // overrides optionA–optionD, e.g. for five-option "select two" items
+}
+
+export interface MatchingPayload {
+  prompts: string[];
+  choices: string[];
+}
+
+// Region geometry is in fractions of the image size, so it scales with the screen
+export interface HotspotRegion {
+  id: string;
+  label?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HotspotPayload {
+  imageUrl: string;
+  aspectRatio?: number; // width / height
+  regions: HotspotRegion[];
+}
+
+export interface FillInPayload {
+  tolerance?: number; // accepted absolute difference for numeric answers
+  unit?: string;
+}
+
+export interface ChoiceOption {
+  key: string;
+  text: string;
+}
+
+const OPTION_KEYS = 'ABCDEFGH'.split('');
+
+// Rows from before question types existed have no type and are single choice
+export const getQuestionType = (question: Question): QuestionType =>
+  QUESTION_TYPES.includes(question.questionType) ? question.questionType : 'single';
+
+export const parsePayload = <T>(question: Question): Partial<T> => {
+  if (!question.payload) return {};
+  try {
+    return JSON.parse(question.payload) ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const splitKeys = (value: string | null | undefined) =>
+  (value ?? '').split(',').map(key => key.trim()).filter(Boolean);
+
+export const getChoiceOptions = (question: Question): ChoiceOption[] => {
+  const { options } = parsePayload<ChoicePayload>(question);
+  if (getQuestionType(question) === 'multiple' && Array.isArray(options) && options.length > 0) {
+    return options.map((text, index) => ({ key: OPTION_KEYS[index], text }));
+  }
+  return ANSWER_KEYS.map(key => ({ key, text: question[`option${key}`] }));
+};
+
+// How many selections a multiple-response item asks for ("select two")
+export const requiredSelections = (question: Question) =>
+  getQuestionType(question) === 'multiple' ? splitKeys(question.correctAnswer).length : 1;
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const toNumber = (value: string) => {
+  const trimmed = value.trim().replace(/,/g, '');
+  return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : null;
+};
+
+// Whether the response is ready to submit; incomplete responses can still be
+// graded (e.g. when the exam clock runs out) and earn partial credit
+export const isResponseComplete = (question: Question, response: string | null | undefined) => {
+  if (!response) return false;
+  switch (getQuestionType(question)) {
+    case 'multiple':
+      return splitKeys(response).length === requiredSelections(question);
+    case 'matching': {
+      const { prompts = [] } = parsePayload<MatchingPayload>(question);
+      const picks = response.split(',');
+      return prompts.every((_, index) => (picks[index] ?? '').trim() !== '');
+    }
+    default:
+      return response.trim() !== '';
+  }
+};
+
+// Score between 0 and 1
+export const gradeResponse = (question: Question, response: string | null | undefined): number => {
+  if (!response) return 0;
+
+  switch (getQuestionType(question)) {
+    case 'single':
+      return response.trim().toUpperCase() === question.correctAnswer.trim().toUpperCase() ? 1 : 0;
+
+    // Each correct pick earns a share, each wrong pick cancels one out
+    case 'multiple': {
+      const correct = new Set(splitKeys(question.correctAnswer.toUpperCase()));
+      const picked = new Set(splitKeys(response.toUpperCase()));
+      if (correct.size === 0) return 0;
+      const hits = Array.from(picked).filter(key => correct.has(key)).length;
+      const misses = picked.size - hits;
+      return Math.max(0, hits - misses) / correct.size;
+    }
+
+    // One share per correctly matched prompt
+    case 'matching': {
+      const correct = question.correctAnswer.split(',').map(value => value.trim());
+      const picked = response.split(',').map(value => value.trim());
+      if (correct.length === 0) return 0;
+      const matched = correct.filter((value, index) => value !== '' && picked[index] === value).length;
+      return matched / correct.length;
+    }
+
+    case 'hotspot':
+      return splitKeys(question.correctAnswer).includes(response.trim()) ? 1 : 0;
+
+    case 'fill_in': {
+      const { tolerance = 0 } = parsePayload<FillInPayload>(question);
+      const accepted = question.correctAnswer.split('|');
+      const value = toNumber(response);
+      const matches = accepted.some(answer => {
+        const expected = toNumber(answer);
+        if (expected !== null && value !== null) return Math.abs(expected - value) <= tolerance;
+        return normalizeText(answer) === normalizeText(response);
+      });
+      return matches ? 1 : 0;
+    }
+  }
+};
+
+// Human-readable form of a response, for results and review screens
+export const formatResponse = (question: Question, response: string | null | undefined) => {
+  if (!response) return '—';
+
+  switch (getQuestionType(question)) {
+    case 'multiple':
+      return splitKeys(response).sort().join(', ');
+    case 'matching': {
+      const { prompts = [], choices = [] } = parsePayload<MatchingPayload>(question);
+      const picks = response.split(',');
+      return prompts
+        .map((prompt, index) => `${prompt} → ${choices[Number(picks[index])] ?? '—'}`)
+        .join('; ');
+    }
+    case 'hotspot': {
+      const { regions = [] } = parsePayload<HotspotPayload>(question);
+      return splitKeys(response)
+        .map(id => regions.find(region => region.id === id)?.label || id)
+        .join(', ');
+    }
+    case 'fill_in': {
+      const { unit } = parsePayload<FillInPayload>(question);
+      const first = response.split('|')[0].trim();
+      return unit ? `${first} ${unit}` : first;
+    }
+    default:
+      return response;
+  }
+};
+
+// Problems that would make a question unanswerable; used when importing
+export const validateQuestionShape = (question: Question): string[] => {
+  const type = getQuestionType(question);
+  const messages: string[] = [];
+  if (question.payload) {
+    try {
+      JSON.parse(question.payload);
+    } catch {
+      return ['payload is not valid JSON'];
+    }
+  }
+
+  switch (type) {
+    case 'single':
+      ANSWER_KEYS.filter(key => !question[`option${key}`]).forEach(key => messages.push(`option${key} is required`));
+      if (!(ANSWER_KEYS as readonly string[]).includes(question.correctAnswer)) {
+        messages.push(`correctAnswer must be one of ${ANSWER_KEYS.join(', ')}`);
+      }
+      break;
+    case 'multiple': {
+      const keys = getChoiceOptions(question).filter(option => option.text).map(option => option.key);
+      const correct = splitKeys(question.correctAnswer);
+      if (keys.length < 3) messages.push('multiple response needs at least three options');
+      if (correct.length < 2) messages.push('correctAnswer must list at least two options, e.g. "A,C"');
+      if (correct.some(key => !keys.includes(key))) messages.push('correctAnswer refers to a missing option');
+      break;
+    }
+    case 'matching': {
+      const { prompts, choices } = parsePayload<MatchingPayload>(question);
+      if (!Array.isArray(prompts) || !Array.isArray(choices) || prompts.length === 0 || choices.length === 0) {
+        messages.push('payload needs non-empty "prompts" and "choices" arrays');
+        break;
+      }
+      const correct = question.correctAnswer.split(',').map(value => Number(value.trim()));
+      if (correct.length !== prompts.length || correct.some(index => !Number.isInteger(index) || index < 0 || index >= choices.length)) {
+        messages.push('correctAnswer must give a choice index for every prompt, e.g. "2,0,1"');
+      }
+      break;
+    }
+    case 'hotspot': {
+      const { imageUrl, regions } = parsePayload<HotspotPayload>(question);
+      if (!imageUrl) messages.push('payload needs an "imageUrl"');
+      if (!Array.isArray(regions) || regions.length === 0) {
+        messages.push('payload needs a non-empty "regions" array');
+      } else if (splitKeys(question.correctAnswer).some(id => !regions.some(region => region.id === id))) {
+        messages.push('correctAnswer refers to a missing region');
+      }
+      break;
+    }
+    case 'fill_in':
+      if (!question.correctAnswer.trim()) messages.push('correctAnswer is required');
+      break;
+  }
+  return messages;
+};
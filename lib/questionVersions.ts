@@ -0,0 +1,161 @@
+import { Question } from '@/lib/questions';
+import { versionsRepository } from '@/lib/repository';
+import { createId } from '@/lib/sessions';
+import { GradedAnswer, QuestionLookup } from '@/lib/stats';
+
+// Row shape of the `questionVersions` table: an immutable copy of the
+// question as it stood after each admin save. Answers record the version they
+// were given against (`questionVersionId`), so review and stats read them
+// against the wording and key the learner actually saw. Rows are only ever added.
+export interface QuestionVersion {
+  id: string;
+  questionId: string;
+  snapshot: string; // JSON of the full Question
+  changedFields: string; // comma-separated; empty for a baseline copy
+  editedBy: string | null; // null for the baseline recorded before the first edit
+  createdAt: string;
+}
+
+// Fields whose change alters which responses count as correct
+export const GRADING_FIELDS: (keyof Question)[] = [
+  'questionType',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctAnswer',
+  'payload',
+];
+
+const VERSIONED_FIELDS: (keyof Question)[] = [
+  'questionText',
+  ...GRADING_FIELDS,
+  'explanation',
+  'rationales',
+  'references',
+  'category',
+  'knowledgeArea',
+  'difficulty',
+  'retired',
+];
+
+export const FIELD_LABELS: Partial<Record<keyof Question, string>> = {
+  questionText: 'Question',
+  questionType: 'Type',
+  optionA: 'Option A',
+  optionB: 'Option B',
+  optionC: 'Option C',
+  optionD: 'Option D',
+  correctAnswer: 'Correct answer',
+  payload: 'Payload',
+  explanation: 'Explanation',
+  rationales: 'Rationales',
+  references: 'References',
+  category: 'Domain',
+  knowledgeArea: 'Knowledge area',
+  difficulty: 'Difficulty',
+  retired: 'Retired',
+};
+
+export const changedFields = (previous: Question | null, next: Question): (keyof Question)[] =>
+  previous ? VERSIONED_FIELDS.filter(field => previous[field] !== next[field]) : VERSIONED_FIELDS;
+
+export const listChangedFields = (version: QuestionVersion) =>
+  version.changedFields ? version.changedFields.split(',') as (keyof Question)[] : [];
+
+export const affectsGrading = (version: QuestionVersion) =>
+  listChangedFields(version).some(field => GRADING_FIELDS.includes(field));
+
+export const parseSnapshot = (version: QuestionVersion): Question | null => {
+  try {
+    return JSON.parse(version.snapshot);
+  } catch {
+    return null;
+  }
+};
+
+const versionRow = (
+  question: Question,
+  fields: (keyof Question)[],
+  editedBy: string | null,
+  createdAt: string,
+  id = createId('version')
+): QuestionVersion => ({
+  id,
+  questionId: question.id,
+  snapshot: JSON.stringify(question),
+  changedFields: fields.join(','),
+  editedBy,
+  createdAt
+});
+
+export interface QuestionChange {
+  question: Question;
+  previous: Question | null; // null when the question is new
+}
+
+// Stamps every changed question with a new version id and records the copy;
+// returns the questions to store. A question edited for the first time also
+// gets a baseline copy of how it stood before, which is the version answers
+// without a questionVersionId were given against. Saves that change nothing
+// keep their current version.
+export const recordQuestionVersions = async (changes: QuestionChange[], editedBy: string): Promise<Question[]> => {
+  const now = Date.now();
+  const rows: QuestionVersion[] = [];
+  const questions = changes.map(({ question, previous }) => {
+    const fields = changedFields(previous, question);
+    if (fields.length === 0) return question;
+
+    if (previous && !previous.versionId) {
+      rows.push(versionRow(previous, [], null, new Date(now - 1).toISOString()));
+    }
+    const stamped = { ...question, versionId: createId('version') };
+    rows.push(versionRow(stamped, fields, editedBy, new Date(now).toISOString(), stamped.versionId));
+    return stamped;
+  });
+  await versionsRepository.upsertMany(rows);
+  return questions;
+};
+
+// Newest first
+export const loadVersionHistory = (questionId: string) =>
+  versionsRepository.list({ where: { questionId }, orderBy: { createdAt: 'desc' } }, { fresh: true });
+
+// Resolves each answer to the question as it stood when it was given. The
+// retired flag always comes from the current question, so retiring a
+// question still takes all of its answers out of the stats.
+export const createVersionLookup = (questions: Question[], versions: QuestionVersion[]): QuestionLookup => {
+  const current = new Map(questions.map(question => [question.id, question]));
+  const snapshots = new Map<string, Question>();
+  const baselines = new Map<string, Question>();
+  versions.forEach(version => {
+    const snapshot = parseSnapshot(version);
+    if (!snapshot) return;
+    snapshots.set(version.id, snapshot);
+    if (!version.editedBy) baselines.set(version.questionId, snapshot);
+  });
+
+  return answer => {
+    const question = current.get(answer.questionId);
+    if (!question) return undefined;
+    const versionId = answer.questionVersionId ?? null;
+    if (versionId === (question.versionId ?? null)) return question;
+    const snapshot = versionId ? snapshots.get(versionId) : baselines.get(answer.questionId);
+    return snapshot ? { ...snapshot, retired: question.retired } : question;
+  };
+};
+
+// Only fetches history for questions edited since one of the answers was given
+export const loadVersionLookup = async (answers: GradedAnswer[], questions: Question[]) => {
+  const currentVersions = new Map(questions.map(question => [question.id, question.versionId ?? null]));
+  const outdatedIds = Array.from(new Set(answers
+    .filter(answer => currentVersions.has(answer.questionId) &&
+      (answer.questionVersionId ?? null) !== currentVersions.get(answer.questionId))
+    .map(answer => answer.questionId)));
+
+  const versions = outdatedIds.length === 0 ? [] : await versionsRepository.listAll({
+    where: { questionId: { in: outdatedIds } },
+    orderBy: { id: 'asc' }
+  });
+  return createVersionLookup(questions, versions);
+};
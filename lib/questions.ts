@@ -0,0 +1,37 @@
+// 'single' is the classic four-option item; the others follow the newer PMP
+// item formats and keep their type-specific data in the JSON `payload` column
+export type QuestionType = 'single' | 'multiple' | 'matching' | 'hotspot' | 'fill_in';
+
+export interface Question {
+  id: string;
+  questionText: string;
+  optionA: string;
+  optionB: string;
+  optionC: string;
+  optionD: string;
+  correctAnswer: string;
+  explanation: string; // general explanation; the only one on older questions
+  rationales: string | null; // JSON object: option key -> why it is right or wrong
+  references: string | null; // JSON array of QuestionReference
+  category: string;
+  knowledgeArea: string;
+  difficulty: string;
+  questionType: QuestionType;
+  payload: string | null;
+  retired: number; // 1 = taken out of circulation by a moderator
+  versionId: string | null; // latest questionVersions row; null until first edited
+}
+
+export type AnswerKey = 'A' | 'B' | 'C' | 'D';
+
+export const ANSWER_KEYS: AnswerKey[] = ['A', 'B', 'C', 'D'];
+
+// Fisher-Yates, so every ordering is equally likely
+export const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
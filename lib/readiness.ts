@@ -0,0 +1,199 @@
+import { AnswerRecord } from '@/lib/answers';
+import { StudySession } from '@/lib/schema';
+import { answersRepository, sessionsRepository } from '@/lib/repository';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { loadVersionLookup } from '@/lib/questionVersions';
+import { ECO_DOMAINS } from '@/lib/sessionConfig';
+import { countSessionQuestions } from '@/lib/sessions';
+import { QuestionLookup } from '@/lib/stats';
+import { localDateKey } from '@/lib/streak';
+
+// Share of the real exam each ECO domain accounts for
+export const DOMAIN_WEIGHTS: Record<string, number> = {
+  People: 0.42,
+  Process: 0.5,
+  'Business Environment': 0.08,
+};
+
+export type ReadinessBand = 'needs_improvement' | 'below_target' | 'target' | 'above_target';
+
+// The performance ratings used on the PMI score report
+export const READINESS_BAND_LABELS: Record<ReadinessBand, string> = {
+  needs_improvement: 'Needs Improvement',
+  below_target: 'Below Target',
+  target: 'Target',
+  above_target: 'Above Target',
+};
+
+export const READINESS_BAND_COLORS: Record<ReadinessBand, string> = {
+  needs_improvement: '#EF4444',
+  below_target: '#F59E0B',
+  target: '#2563EB',
+  above_target: '#10B981',
+};
+
+// Score (0–100) at which each band starts; Target is roughly the passing line
+const BAND_THRESHOLDS: [ReadinessBand, number][] = [
+  ['above_target', 80],
+  ['target', 70],
+  ['below_target', 55],
+  ['needs_improvement', 0],
+];
+const PASS_SCORE = 70;
+
+// An answer's weight halves every two weeks, so old mistakes fade out
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Hard questions say more about readiness than easy ones
+const DIFFICULTY_WEIGHTS: Record<string, number> = { easy: 0.75, medium: 1, hard: 1.3 };
+// Mock exams are the closest thing to the real exam, so they pull the overall score toward them
+const MOCK_EXAM_SHARE = 0.3;
+// Too few answers in a domain to rate it
+const MIN_DOMAIN_ANSWERS = 5;
+const TREND_WEEKS = 8;
+const READINESS_ANSWER_LIMIT = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DomainReadiness {
+  domain: string;
+  weight: number;
+  answered: number;
+  score: number | null; // null until MIN_DOMAIN_ANSWERS answers
+  band: ReadinessBand | null;
+}
+
+export interface ReadinessPoint {
+  weekEnding: string; // local date key
+  score: number;
+}
+
+export interface ReadinessReport {
+  score: number | null;
+  band: ReadinessBand | null;
+  passProbability: number | null; // 0–1
+  domains: DomainReadiness[];
+  trend: ReadinessPoint[];
+}
+
+export const getReadinessBand = (score: number): ReadinessBand =>
+  BAND_THRESHOLDS.find(([, threshold]) => score >= threshold)![0];
+
+const recencyWeight = (answeredAt: string, asOf: number) => {
+  const ageDays = Math.max(0, (asOf - new Date(answeredAt).getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+const answerScore = (answer: AnswerRecord) =>
+  typeof answer.score === 'number' ? answer.score : Number(answer.isCorrect) > 0 ? 1 : 0;
+
+const scoreDomains = (answers: AnswerRecord[], questionFor: QuestionLookup, asOf: number): DomainReadiness[] => {
+  const totals = new Map<string, { weighted: number; weight: number; answered: number }>();
+
+  answers.forEach(answer => {
+    const question = questionFor(answer);
+    if (!question || !(question.category in DOMAIN_WEIGHTS)) return;
+    const weight = recencyWeight(answer.answeredAt, asOf) * (DIFFICULTY_WEIGHTS[question.difficulty] ?? 1);
+    const current = totals.get(question.category) || { weighted: 0, weight: 0, answered: 0 };
+    totals.set(question.category, {
+      weighted: current.weighted + answerScore(answer) * weight,
+      weight: current.weight + weight,
+      answered: current.answered + 1
+    });
+  });
+
+  return ECO_DOMAINS.map(domain => {
+    const total = totals.get(domain);
+    const rated = total && total.answered >= MIN_DOMAIN_ANSWERS && total.weight > 0;
+    const score = rated ? Math.round((total.weighted / total.weight) * 100) : null;
+    return {
+      domain,
+      weight: DOMAIN_WEIGHTS[domain],
+      answered: total?.answered ?? 0,
+      score,
+      band: score === null ? null : getReadinessBand(score)
+    };
+  });
+};
+
+// Recency-weighted accuracy across finished mock exams, unanswered questions
+// scored as wrong; null if none taken
+const scoreMockExams = (sessions: StudySession[], asOf: number) => {
+  let weighted = 0;
+  let weight = 0;
+  sessions
+    .filter(session => session.sessionType === 'mock_exam' && countSessionQuestions(session) > 0)
+    .filter(session => new Date(session.createdAt || session.sessionDate).getTime() <= asOf)
+    .forEach(session => {
+      const sessionWeight = recencyWeight(session.createdAt || session.sessionDate, asOf);
+      weighted += (session.correctAnswers / countSessionQuestions(session)) * sessionWeight;
+      weight += sessionWeight;
+    });
+  return weight > 0 ? (weighted / weight) * 100 : null;
+};
+
+// Domain scores combined by exam weight, then blended with mock exam results.
+// Unrated domains are left out and the remaining weights scaled up.
+const scoreOverall = (domains: DomainReadiness[], mockScore: number | null) => {
+  const rated = domains.filter(domain => domain.score !== null);
+  if (rated.length === 0) return mockScore === null ? null : Math.round(mockScore);
+  const totalWeight = rated.reduce((sum, domain) => sum + domain.weight, 0);
+  const practiceScore = rated.reduce((sum, domain) => sum + domain.score! * domain.weight, 0) / totalWeight;
+  const score = mockScore === null ? practiceScore : practiceScore * (1 - MOCK_EXAM_SHARE) + mockScore * MOCK_EXAM_SHARE;
+  return Math.round(score);
+};
+
+// Logistic curve around the passing line; flatter (less certain either way)
+// when the estimate rests on few answers
+const estimatePassProbability = (score: number, answered: number) => {
+  const spread = 4 + 40 / Math.sqrt(Math.max(answered, 1));
+  return 1 / (1 + Math.exp(-(score - PASS_SCORE) / spread));
+};
+
+// Readiness as of each of the last TREND_WEEKS week ends, skipping weeks
+// before there was enough data to score
+const computeTrend = (
+  answers: AnswerRecord[],
+  questionFor: QuestionLookup,
+  sessions: StudySession[],
+  now: number
+): ReadinessPoint[] => {
+  const points: ReadinessPoint[] = [];
+  for (let week = TREND_WEEKS - 1; week >= 0; week--) {
+    const asOf = now - week * 7 * DAY_MS;
+    const answersSoFar = answers.filter(answer => new Date(answer.answeredAt).getTime() <= asOf);
+    const score = scoreOverall(scoreDomains(answersSoFar, questionFor, asOf), scoreMockExams(sessions, asOf));
+    if (score !== null) {
+      points.push({ weekEnding: localDateKey(new Date(asOf)), score });
+    }
+  }
+  return points;
+};
+
+export const computeReadiness = (
+  answers: AnswerRecord[],
+  questionFor: QuestionLookup,
+  sessions: StudySession[],
+  now: number = Date.now()
+): ReadinessReport => {
+  const domains = scoreDomains(answers, questionFor, now);
+  const score = scoreOverall(domains, scoreMockExams(sessions, now));
+  const answered = domains.reduce((sum, domain) => sum + domain.answered, 0);
+
+  return {
+    score,
+    band: score === null ? null : getReadinessBand(score),
+    passProbability: score === null ? null : estimatePassProbability(score, answered),
+    domains,
+    trend: computeTrend(answers, questionFor, sessions, now)
+  };
+};
+
+export const loadReadiness = async (userId: string): Promise<ReadinessReport> => {
+  const [answers, sessions, questions] = await Promise.all([
+    answersRepository.list({ where: { userId }, orderBy: { answeredAt: 'desc' }, limit: READINESS_ANSWER_LIMIT }),
+    sessionsRepository.list({ where: { userId, sessionType: 'mock_exam' }, orderBy: { createdAt: 'desc' }, limit: 20 }),
+    loadQuestionBank()
+  ]);
+  const questionFor = await loadVersionLookup(answers, questions);
+  return computeReadiness(answers, questionFor, sessions);
+};
@@ -0,0 +1,153 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { User } from '@/lib/schema';
+import { describeDailyGoal, getDailyGoal } from '@/lib/dailyGoal';
+import { getStreakStatus, localDateKey } from '@/lib/streak';
+
+// Times are minutes after local midnight. Stored with the other preferences,
+// on the device, because notifications are per device: a tablet left at home
+// shouldn't buzz just because the phone is set up to.
+export interface ReminderSettings {
+  dailyReminder: boolean;
+  dailyReminderTime: number;
+  streakAlert: boolean;
+  streakAlertTime: number;
+  quietHours: boolean;
+  quietStart: number;
+  quietEnd: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  dailyReminder: false,
+  dailyReminderTime: 19 * 60,
+  streakAlert: false,
+  streakAlertTime: 21 * 60,
+  quietHours: false,
+  quietStart: 22 * 60,
+  quietEnd: 7 * 60,
+};
+
+export const REMINDER_TIME_OPTIONS = [7, 9, 12, 17, 19, 21].map(hour => hour * 60);
+export const STREAK_ALERT_TIME_OPTIONS = [18, 20, 21, 22].map(hour => hour * 60);
+export const QUIET_START_OPTIONS = [20, 21, 22, 23].map(hour => hour * 60);
+export const QUIET_END_OPTIONS = [6, 7, 8, 9].map(hour => hour * 60);
+
+// Reminders are planned a week ahead and re-planned whenever the app opens or
+// settings change, so today's can be dropped once the user has studied
+const PLAN_DAYS = 7;
+const QUIET_HOURS_MARGIN = 15;
+const CHANNEL_ID = 'reminders';
+
+export type ReminderKind = 'daily' | 'streak';
+
+export interface PlannedReminder {
+  kind: ReminderKind;
+  date: Date;
+  title: string;
+  body: string;
+}
+
+export const formatTimeOfDay = (minutes: number) => {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  return `${hour % 12 || 12}:${minute.toString().padStart(2, '0')} ${suffix}`;
+};
+
+const isQuiet = (minute: number, { quietStart, quietEnd }: ReminderSettings) =>
+  quietStart <= quietEnd
+    ? minute >= quietStart && minute < quietEnd
+    : minute >= quietStart || minute < quietEnd; // window runs past midnight
+
+// A reminder that lands in quiet hours moves out of them: the streak alert to
+// just before they start (once they end the day, and the streak, is over), the
+// daily reminder to when they end if that's still the same day
+const shiftOutOfQuietHours = (minute: number, kind: ReminderKind, settings: ReminderSettings) => {
+  if (!settings.quietHours || !isQuiet(minute, settings)) return minute;
+  if (kind === 'daily' && settings.quietEnd > minute) return settings.quietEnd;
+  return Math.max(0, settings.quietStart - QUIET_HOURS_MARGIN);
+};
+
+const atMinute = (day: Date, minute: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minute / 60), minute % 60);
+
+export const planReminders = (settings: ReminderSettings, user: User, now = new Date()): PlannedReminder[] => {
+  const { currentStreak, studiedToday } = getStreakStatus(user, localDateKey(now));
+  const goal = describeDailyGoal(getDailyGoal(user));
+  const plan: PlannedReminder[] = [];
+
+  for (let offset = 0; offset < PLAN_DAYS; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const isToday = offset === 0;
+    if (isToday && studiedToday) continue;
+
+    if (settings.dailyReminder) {
+      plan.push({
+        kind: 'daily',
+        date: atMinute(day, shiftOutOfQuietHours(settings.dailyReminderTime, 'daily', settings)),
+        title: 'Time to study 📚',
+        body: `${goal} to meet today's goal.`
+      });
+    }
+
+    // Nothing to protect without a streak
+    if (settings.streakAlert && currentStreak > 0) {
+      plan.push({
+        kind: 'streak',
+        date: atMinute(day, shiftOutOfQuietHours(settings.streakAlertTime, 'streak', settings)),
+        title: 'Your streak is at risk 🔥',
+        body: isToday
+          ? `Your ${currentStreak}-day streak ends at midnight. A quick session keeps it alive.`
+          : "You haven't met today's goal yet. A quick session keeps your streak alive."
+      });
+    }
+  }
+
+  return plan.filter(reminder => reminder.date.getTime() > now.getTime());
+};
+
+export const remindersSupported = Platform.OS !== 'web';
+
+// Shows reminders even while the app is open
+export const configureReminderHandling = () => {
+  if (!remindersSupported) return;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+export const requestReminderPermission = async () => {
+  if (!remindersSupported) return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Replaces everything scheduled with a fresh plan for this user
+export const syncReminders = async (user: User, settings: ReminderSettings) => {
+  if (!remindersSupported) return;
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  if (!settings.dailyReminder && !settings.streakAlert) return;
+
+  const permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted) return;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Study reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  for (const reminder of planReminders(settings, user)) {
+    await Notifications.scheduleNotificationAsync({
+      content: { title: reminder.title, body: reminder.body, data: { kind: reminder.kind } },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: reminder.date, channelId: CHANNEL_ID },
+    });
+  }
+};
@@ -0,0 +1,171 @@
+import { DataBackend, ListOptions, Row, blinkBackend } from '@/lib/dataBackend';
+import { TableName, TableRows, User, parseRow } from '@/lib/schema';
+import { readLocal, writeLocal } from '@/lib/localStore';
+
+let backend: DataBackend = blinkBackend;
+
+// Reads are shared across screens for a short while so navigating between
+// home, stats and streak doesn't refetch the same rows; any write through the
+// repository drops the cached reads for that table
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<string, { at: number; rows: Promise<any[]> }>();
+
+export const clearRepositoryCache = (table?: TableName) => {
+  Array.from(cache.keys())
+    .filter(key => !table || key.startsWith(`${table}:`))
+    .forEach(key => cache.delete(key));
+};
+
+// Swap in e.g. createMemoryBackend() for tests
+export const setDataBackend = (next: DataBackend) => {
+  backend = next;
+  clearRepositoryCache();
+};
+
+// Rows that fail validation are logged and dropped rather than failing the screen
+const parseRows = <K extends TableName>(table: K, rows: Row[]) =>
+  rows.flatMap(raw => {
+    try {
+      return [parseRow(table, raw)];
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  });
+
+export interface ReadOptions {
+  fresh?: boolean; // bypass the shared cache
+}
+
+// Blink caps a single list call, so full-history reads go page by page
+const LIST_PAGE_SIZE = 1000;
+
+const createRepository = <K extends TableName>(table: K) => {
+  type T = TableRows[K];
+
+  const list = (options: ListOptions = {}, { fresh = false }: ReadOptions = {}): Promise<T[]> => {
+    const key = `${table}:${JSON.stringify(options)}`;
+    const cached = cache.get(key);
+    if (!fresh && cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.rows;
+
+    const rows = backend.list(table, options).then(raw => parseRows(table, raw));
+    cache.set(key, { at: Date.now(), rows });
+    rows.catch(() => cache.delete(key));
+    return rows;
+  };
+
+  const write = async (task: () => Promise<void>) => {
+    try {
+      await task();
+    } finally {
+      clearRepositoryCache(table);
+    }
+  };
+
+  // Every matching row, however many, shared through the cache like list;
+  // pass an orderBy so pages don't overlap. Page length is checked before
+  // parsing, since dropped rows would otherwise look like the last page.
+  const listAll = (options: Omit<ListOptions, 'limit' | 'offset'> = {}, { fresh = false }: ReadOptions = {}): Promise<T[]> => {
+    const key = `${table}:all:${JSON.stringify(options)}`;
+    const cached = cache.get(key);
+    if (!fresh && cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.rows;
+
+    const load = async () => {
+      const rows: T[] = [];
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const page = await backend.list(table, { ...options, limit: LIST_PAGE_SIZE, offset });
+        rows.push(...parseRows(table, page));
+        if (page.length < LIST_PAGE_SIZE) return rows;
+      }
+    };
+    const rows = load();
+    cache.set(key, { at: Date.now(), rows });
+    rows.catch(() => cache.delete(key));
+    return rows;
+  };
+
+  return {
+    list,
+    listAll,
+    get: async (id: string, options?: ReadOptions): Promise<T | null> =>
+      (await list({ where: { id }, limit: 1 }, options))[0] ?? null,
+    exists: (where: Row) => backend.exists(table, where),
+    create: (row: T) => write(() => backend.create(table, parseRow(table, row))),
+    upsertMany: (rows: T[]) => {
+      if (rows.length === 0) return Promise.resolve();
+      return write(() => backend.upsertMany(table, rows.map(row => parseRow(table, row))));
+    },
+    update: (id: string, changes: Partial<T>) => write(() => backend.update(table, id, changes)),
+  };
+};
+
+export const usersRepository = createRepository('users');
+export const answersRepository = createRepository('userAnswers');
+export const sessionsRepository = createRepository('studySessions');
+export const questionsRepository = createRepository('questions');
+export const reviewsRepository = createRepository('questionReviews');
+export const bookmarksRepository = createRepository('questionBookmarks');
+export const reportsRepository = createRepository('questionReports');
+export const versionsRepository = createRepository('questionVersions');
+export const categoryAggregatesRepository = createRepository('categoryAggregates');
+export const dailyAggregatesRepository = createRepository('dailyAggregates');
+export const questionAggregatesRepository = createRepository('questionAggregates');
+export const aggregateStatesRepository = createRepository('aggregateStates');
+
+const repositories = {
+  users: usersRepository,
+  userAnswers: answersRepository,
+  studySessions: sessionsRepository,
+  questions: questionsRepository,
+  questionReviews: reviewsRepository,
+  questionBookmarks: bookmarksRepository,
+  questionReports: reportsRepository,
+  questionVersions: versionsRepository,
+  categoryAggregates: categoryAggregatesRepository,
+  dailyAggregates: dailyAggregatesRepository,
+  questionAggregates: questionAggregatesRepository,
+  aggregateStates: aggregateStatesRepository,
+};
+
+export const getRepository = <K extends TableName>(table: K) =>
+  repositories[table] as unknown as ReturnType<typeof createRepository<K>>;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  displayName?: string;
+}
+
+const profileCacheKey = (userId: string) => `profile:${userId}`;
+
+// The stored profile, or a blank one for users who haven't finished a session
+// yet; the display name falls back to the auth profile, then the email prefix.
+// Offline, the copy from the last successful load stands in so practice can
+// still start.
+export const loadUserProfile = async (authUser: AuthUser, options?: ReadOptions): Promise<User> => {
+  let stored: User | null;
+  try {
+    stored = await usersRepository.get(authUser.id, options);
+    if (stored) await writeLocal(profileCacheKey(authUser.id), stored);
+  } catch (error) {
+    console.error('Error fetching user profile, using cached copy:', error);
+    stored = await readLocal<User | null>(profileCacheKey(authUser.id), null);
+  }
+  const profile = stored ?? parseRow('users', { id: authUser.id });
+  return {
+    ...profile,
+    email: authUser.email,
+    displayName: profile.displayName || authUser.displayName || authUser.email.split('@')[0],
+  };
+};
+
+// Settings can change before the first finished session has created the row
+export const updateUserProfile = async (authUser: AuthUser, changes: Partial<Omit<User, 'id'>>) => {
+  const updatedAt = new Date().toISOString();
+  if (await usersRepository.exists({ id: authUser.id })) {
+    await usersRepository.update(authUser.id, { ...changes, updatedAt });
+  } else {
+    const profile = await loadUserProfile(authUser);
+    await usersRepository.create({ ...profile, ...changes, createdAt: updatedAt, updatedAt });
+  }
+};
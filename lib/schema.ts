@@ -0,0 +1,274 @@
+import { Question } from '@/lib/questions';
+import { AnswerRecord } from '@/lib/answers';
+import { ReviewState } from '@/lib/spacedRepetition';
+import { QuestionBookmark } from '@/lib/bookmarks';
+import { QuestionReport, UserRole } from '@/lib/moderation';
+import { SessionType } from '@/lib/sessions';
+import { QuestionVersion } from '@/lib/questionVersions';
+import { AggregateState, CategoryAggregate, DailyAggregate, QuestionAggregate } from '@/lib/answerAggregates';
+
+// Row shape of the `users` table
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  currentStreak: number;
+  longestStreak: number;
+  lastStudyDate: string;
+  streakFreezes: number;
+  totalQuestionsAnswered: number;
+  correctAnswers: number;
+  dailyGoalQuestions: number; // 0 = no question target
+  dailyGoalMinutes: number; // 0 = no time target
+  role: UserRole; // granted on the server; the app only reads it
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Row shape of the `studySessions` table
+export interface StudySession {
+  id: string;
+  userId: string;
+  sessionType: SessionType;
+  sessionDate: string;
+  questionsAnswered: number;
+  correctAnswers: number;
+  sessionDuration: number;
+  sessionConfig: string | null;
+  questionIds: string | null; // JSON array; null on sessions from before answer review
+  flaggedQuestionIds: string | null; // JSON array, answered or not; null on sessions from before
+  createdAt: string;
+}
+
+export type TableName =
+  | 'users'
+  | 'userAnswers'
+  | 'studySessions'
+  | 'questions'
+  | 'questionReviews'
+  | 'questionBookmarks'
+  | 'questionReports'
+  | 'questionVersions'
+  | 'categoryAggregates'
+  | 'dailyAggregates'
+  | 'questionAggregates'
+  | 'aggregateStates';
+
+export interface TableRows {
+  users: User;
+  userAnswers: AnswerRecord;
+  studySessions: StudySession;
+  questions: Question;
+  questionReviews: ReviewState;
+  questionBookmarks: QuestionBookmark;
+  questionReports: QuestionReport;
+  questionVersions: QuestionVersion;
+  categoryAggregates: CategoryAggregate;
+  dailyAggregates: DailyAggregate;
+  questionAggregates: QuestionAggregate;
+  aggregateStates: AggregateState;
+}
+
+export class RowValidationError extends Error {
+  constructor(table: TableName, field: string, value: unknown) {
+    super(`Invalid ${table}.${field}: ${JSON.stringify(value)}`);
+    this.name = 'RowValidationError';
+  }
+}
+
+// Missing optional fields fall back to `fallback`; a missing required field
+// (or one that can't be coerced) rejects the whole row
+type Field =
+  | { type: 'string'; required?: boolean; fallback?: string }
+  | { type: 'number'; fallback?: number }
+  | { type: 'nullableString' }
+  | { type: 'nullableNumber' };
+
+type Schema<T> = { [K in keyof T]-?: Field };
+
+const required: Field = { type: 'string', required: true };
+const text = (fallback = ''): Field => ({ type: 'string', fallback });
+const number = (fallback = 0): Field => ({ type: 'number', fallback });
+const nullableText: Field = { type: 'nullableString' };
+const nullableNumber: Field = { type: 'nullableNumber' };
+
+const schemas: { [K in TableName]: Schema<TableRows[K]> } = {
+  users: {
+    id: required,
+    email: text(),
+    displayName: text(),
+    currentStreak: number(),
+    longestStreak: number(),
+    lastStudyDate: text(),
+    streakFreezes: number(),
+    totalQuestionsAnswered: number(),
+    correctAnswers: number(),
+    dailyGoalQuestions: number(5),
+    dailyGoalMinutes: number(),
+    role: text('user'),
+    createdAt: text(),
+    updatedAt: text(),
+  },
+  userAnswers: {
+    id: required,
+    userId: required,
+    sessionId: nullableText,
+    questionId: required,
+    selectedAnswer: text(),
+    isCorrect: number(),
+    score: nullableNumber,
+    wasChanged: number(),
+    originalAnswer: nullableText,
+    isFlagged: number(),
+    timeSpentMs: nullableNumber,
+    backgroundMs: nullableNumber,
+    questionVersionId: nullableText,
+    answeredAt: text(),
+    aggregatedAt: nullableText,
+  },
+  studySessions: {
+    id: required,
+    userId: required,
+    sessionType: text('practice'),
+    sessionDate: required,
+    questionsAnswered: number(),
+    correctAnswers: number(),
+    sessionDuration: number(),
+    sessionConfig: nullableText,
+    questionIds: nullableText,
+    flaggedQuestionIds: nullableText,
+    createdAt: text(),
+  },
+  questions: {
+    id: required,
+    questionText: required,
+    optionA: text(),
+    optionB: text(),
+    optionC: text(),
+    optionD: text(),
+    correctAnswer: required,
+    explanation: text(),
+    rationales: nullableText,
+    references: nullableText,
+    category: text(),
+    knowledgeArea: text(),
+    difficulty: text('medium'),
+    questionType: text('single'),
+    payload: nullableText,
+    retired: number(),
+    versionId: nullableText,
+  },
+  questionReviews: {
+    id: required,
+    userId: required,
+    questionId: required,
+    easeFactor: number(2.5),
+    intervalDays: number(),
+    repetitions: number(),
+    lapses: number(),
+    dueAt: required,
+    lastReviewedAt: text(),
+  },
+  questionBookmarks: {
+    id: required,
+    userId: required,
+    questionId: required,
+    bookmarked: number(),
+    note: text(),
+    updatedAt: text(),
+  },
+  questionReports: {
+    id: required,
+    userId: required,
+    questionId: required,
+    reason: text('other'),
+    comment: text(),
+    status: text('open'),
+    createdAt: text(),
+    resolvedAt: nullableText,
+    resolvedBy: nullableText,
+  },
+  questionVersions: {
+    id: required,
+    questionId: required,
+    snapshot: required,
+    changedFields: text(),
+    editedBy: nullableText,
+    createdAt: text(),
+  },
+  categoryAggregates: {
+    id: required,
+    userId: required,
+    category: text(),
+    total: number(),
+    correct: number(),
+    updatedAt: text(),
+  },
+  dailyAggregates: {
+    id: required,
+    userId: required,
+    date: required,
+    answered: number(),
+    correct: number(),
+    timedAnswers: number(),
+    timeSpentMs: number(),
+    updatedAt: text(),
+  },
+  questionAggregates: {
+    id: required,
+    userId: required,
+    questionId: required,
+    questionVersionId: nullableText,
+    category: text(),
+    knowledgeArea: text(),
+    attempts: number(),
+    correct: number(),
+    lastAnsweredAt: text(),
+    lastCorrect: number(),
+    updatedAt: text(),
+  },
+  aggregateStates: {
+    id: required,
+    userId: required,
+    formatVersion: number(),
+    pending: number(),
+    updatedAt: text(),
+  },
+};
+
+const parseField = (table: TableName, name: string, field: Field, value: unknown) => {
+  const missing = value === null || value === undefined || value === '';
+
+  switch (field.type) {
+    case 'string':
+      if (missing) {
+        if (field.required) throw new RowValidationError(table, name, value);
+        return field.fallback ?? '';
+      }
+      return String(value);
+    case 'number': {
+      if (missing) return field.fallback ?? 0;
+      const parsed = Number(value);
+      if (Number.isNaN(parsed)) throw new RowValidationError(table, name, value);
+      return parsed;
+    }
+    case 'nullableString':
+      return missing ? null : String(value);
+    case 'nullableNumber': {
+      if (missing) return null;
+      const parsed = Number(value);
+      if (Number.isNaN(parsed)) throw new RowValidationError(table, name, value);
+      return parsed;
+    }
+  }
+};
+
+// Validates a raw row and fills in defaults; columns not in the schema pass
+// through untouched so newer server columns don't break older clients
+export const parseRow = <K extends TableName>(table: K, raw: Record<string, any>): TableRows[K] => {
+  const row: Record<string, any> = { ...raw };
+  Object.entries(schemas[table]).forEach(([name, field]) => {
+    row[name] = parseField(table, name, field as Field, raw[name]);
+  });
+  return row as TableRows[K];
+};
@@ -0,0 +1,83 @@
+import { Question, shuffle } from '@/lib/questions';
+import { loadScheduledQuestions } from '@/lib/spacedRepetition';
+import { listBookmarkedIds } from '@/lib/bookmarks';
+
+export const ECO_DOMAINS = ['People', 'Process', 'Business Environment'];
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export const QUESTION_COUNT_OPTIONS = [5, 10, 20, 50];
+
+export type QuestionSource = 'all' | 'bookmarks';
+
+export const QUESTION_SOURCE_LABELS: Record<QuestionSource, string> = {
+  all: 'All questions',
+  bookmarks: 'My Bookmarks',
+};
+
+// Empty lists mean "no restriction" for that dimension
+export interface SessionConfig {
+  domains: string[];
+  knowledgeAreas: string[];
+  difficulties: string[];
+  questionCount: number;
+  source: QuestionSource;
+}
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  domains: [],
+  knowledgeAreas: [],
+  difficulties: [],
+  questionCount: 5,
+  source: 'all',
+};
+
+export const serializeSessionConfig = (config: SessionConfig) => JSON.stringify(config);
+
+export const parseSessionConfig = (raw?: string | null): SessionConfig => {
+  if (!raw) return DEFAULT_SESSION_CONFIG;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      domains: Array.isArray(parsed.domains) ? parsed.domains : [],
+      knowledgeAreas: Array.isArray(parsed.knowledgeAreas) ? parsed.knowledgeAreas : [],
+      difficulties: Array.isArray(parsed.difficulties) ? parsed.difficulties : [],
+      questionCount: Number(parsed.questionCount) > 0 ? Number(parsed.questionCount) : DEFAULT_SESSION_CONFIG.questionCount,
+      source: parsed.source === 'bookmarks' ? 'bookmarks' : 'all',
+    };
+  } catch {
+    return DEFAULT_SESSION_CONFIG;
+  }
+};
+
+type QuestionAttributes = Pick<Question, 'category' | 'knowledgeArea' | 'difficulty'>;
+
+export const matchesSessionConfig = (question: QuestionAttributes, config: SessionConfig) =>
+  (config.domains.length === 0 || config.domains.includes(question.category)) &&
+  (config.knowledgeAreas.length === 0 || config.knowledgeAreas.includes(question.knowledgeArea)) &&
+  (config.difficulties.length === 0 || config.difficulties.includes(question.difficulty));
+
+// Splits the question count as evenly as possible across the chosen difficulties
+export const loadSessionQuestions = async (userId: string, config: SessionConfig): Promise<Question[]> => {
+  const bookmarked = config.source === 'bookmarks' ? await listBookmarkedIds(userId) : null;
+  const matches = (question: Question, scope: SessionConfig) =>
+    matchesSessionConfig(question, scope) && (!bookmarked || bookmarked.has(question.id));
+
+  if (config.difficulties.length === 0) {
+    return loadScheduledQuestions(userId, config.questionCount, question => matches(question, config));
+  }
+
+  const base = Math.floor(config.questionCount / config.difficulties.length);
+  const remainder = config.questionCount % config.difficulties.length;
+  const batches = await Promise.all(
+    config.difficulties.map((difficulty, index) =>
+      loadScheduledQuestions(
+        userId,
+        base + (index < remainder ? 1 : 0),
+        question => matches(question, { ...config, difficulties: [difficulty] })
+      )
+    )
+  );
+
+  return shuffle(batches.flat());
+};
@@ -0,0 +1,103 @@
+import { Question } from '@/lib/questions';
+import { AnswerRecord } from '@/lib/answers';
+import { StudySession } from '@/lib/schema';
+import { answersRepository, sessionsRepository } from '@/lib/repository';
+import { findPendingSession, listPendingRows } from '@/lib/outbox';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { loadVersionLookup } from '@/lib/questionVersions';
+
+export type ReviewFilter = 'all' | 'incorrect' | 'flagged';
+
+export const REVIEW_FILTER_LABELS: Record<ReviewFilter, string> = {
+  all: 'All',
+  incorrect: 'Incorrect',
+  flagged: 'Flagged',
+};
+
+// answer is null for questions that were shown but left unanswered. question
+// is the version that was answered; editedSince says the bank has moved on.
+// flagged covers unanswered questions too, which have no answer to carry it.
+export interface ReviewItem {
+  question: Question;
+  answer: AnswerRecord | null;
+  editedSince: boolean;
+  flagged: boolean;
+}
+
+export interface SessionReview {
+  session: StudySession;
+  items: ReviewItem[];
+}
+
+// A session that hasn't synced yet only exists in the outbox
+const loadSession = async (sessionId: string) =>
+  (await findPendingSession(sessionId)) ?? sessionsRepository.get(sessionId);
+
+// Synced answers plus any still queued; offline, the queued ones are all we have
+const loadSessionAnswers = async (userId: string, sessionId: string) => {
+  const pending = (await listPendingRows('userAnswers')).filter(answer => answer.sessionId === sessionId);
+  let synced: AnswerRecord[] = [];
+  try {
+    synced = await answersRepository.list({ where: { userId, sessionId } });
+  } catch (error) {
+    if (pending.length === 0) throw error;
+    console.error('Error fetching session answers, using queued copy:', error);
+  }
+
+  const byId = new Map(synced.map(answer => [answer.id, answer]));
+  pending.forEach(answer => byId.set(answer.id, answer));
+  return Array.from(byId.values());
+};
+
+const parseQuestionIds = (value: string | null): string[] | null => {
+  if (!value) return null;
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Null if the session doesn't exist. Sessions recorded before answers carried
+// a session id come back with no items.
+export const loadSessionReview = async (userId: string, sessionId: string): Promise<SessionReview | null> => {
+  const [session, answers, bank] = await Promise.all([
+    loadSession(sessionId),
+    loadSessionAnswers(userId, sessionId),
+    loadQuestionBank({ includeRetired: true })
+  ]);
+  if (!session || session.userId !== userId) return null;
+
+  const questionMap = new Map(bank.map(question => [question.id, question]));
+  const questionFor = await loadVersionLookup(answers, bank);
+  const answerMap = new Map(answers.map(answer => [answer.questionId, answer]));
+  const questionIds = parseQuestionIds(session.questionIds) ??
+    [...answers].sort((a, b) => a.answeredAt.localeCompare(b.answeredAt)).map(answer => answer.questionId);
+  const flaggedIds = new Set(parseQuestionIds(session.flaggedQuestionIds) ?? []);
+
+  // Questions since removed from the bank can't be shown
+  const items = questionIds
+    .filter(id => questionMap.has(id))
+    .map(id => {
+      const current = questionMap.get(id)!;
+      const answer = answerMap.get(id) ?? null;
+      const question = (answer && questionFor(answer)) || current;
+      return {
+        question,
+        answer,
+        editedSince: question !== current,
+        flagged: flaggedIds.has(id) || answer?.isFlagged === 1
+      };
+    });
+
+  return { session, items };
+};
+
+export const filterReviewItems = (items: ReviewItem[], filter: ReviewFilter, knowledgeArea: string | null) =>
+  items.filter(({ question, answer, flagged }) => {
+    if (knowledgeArea && question.knowledgeArea !== knowledgeArea) return false;
+    if (filter === 'incorrect') return answer?.isCorrect !== 1;
+    if (filter === 'flagged') return flagged;
+    return true;
+  });
@@ -0,0 +1,111 @@
+import { AuthUser, sessionsRepository, usersRepository } from '@/lib/repository';
+import { SessionConfig } from '@/lib/sessionConfig';
+import { StudySession } from '@/lib/schema';
+import { EMPTY_STREAK, StreakState, recordStudyDay } from '@/lib/streak';
+import { DEFAULT_DAILY_GOAL, getDailyGoal, isDailyGoalMet, summarizeDay } from '@/lib/dailyGoal';
+
+export type SessionType = 'practice' | 'mock_exam' | 'drill';
+
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  practice: 'Practice',
+  mock_exam: 'Mock Exam',
+  drill: 'Weak-Spot Drill',
+};
+
+export interface SessionResult {
+  sessionType: SessionType;
+  questionsAnswered: number;
+  correctAnswers: number;
+  sessionDuration: number; // seconds
+  sessionConfig?: SessionConfig; // filters the session was built from, if any
+  questionIds?: string[]; // every question shown, in order, answered or not
+  flaggedQuestionIds?: string[]; // flagged for review, including unanswered ones
+}
+
+export const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// A finished session as queued in the outbox; the id makes replays idempotent
+// and studyDay (the local calendar day at completion) keeps the streak
+// anchored to when and where the user actually studied
+export interface StudySessionWrite {
+  sessionId: string;
+  user: AuthUser;
+  result: SessionResult;
+  completedAt: string;
+  studyDay: string;
+}
+
+export const toSessionRow = ({ sessionId, user, result, completedAt, studyDay }: StudySessionWrite): StudySession => ({
+  id: sessionId,
+  userId: user.id,
+  sessionType: result.sessionType,
+  sessionDate: studyDay,
+  questionsAnswered: result.questionsAnswered,
+  correctAnswers: result.correctAnswers,
+  sessionDuration: result.sessionDuration,
+  sessionConfig: result.sessionConfig ? JSON.stringify(result.sessionConfig) : null,
+  questionIds: result.questionIds ? JSON.stringify(result.questionIds) : null,
+  flaggedQuestionIds: result.flaggedQuestionIds ? JSON.stringify(result.flaggedQuestionIds) : null,
+  createdAt: completedAt
+});
+
+// Questions the session put in front of the user: a mock exam's unanswered
+// questions count here but not in questionsAnswered
+export const countSessionQuestions = (session: Pick<StudySession, 'questionIds' | 'questionsAnswered'>) => {
+  try {
+    const ids = session.questionIds ? JSON.parse(session.questionIds) : null;
+    return Array.isArray(ids) ? ids.length : session.questionsAnswered;
+  } catch {
+    return session.questionsAnswered;
+  }
+};
+
+// Records a finished session, then rolls it into the user's totals and streak.
+// The streak only moves once the day's sessions add up to the daily goal.
+// Skipped entirely if the session row already exists (an earlier replay landed).
+// The row goes first so a failure in between can't count the session twice on
+// replay; at worst it leaves the totals one session short.
+export const applyStudySession = async (write: StudySessionWrite) => {
+  const { sessionId, user, result, studyDay } = write;
+  const alreadyApplied = await sessionsRepository.exists({ id: sessionId });
+  if (alreadyApplied) return;
+
+  const { questionsAnswered, correctAnswers } = result;
+  const existingUser = await usersRepository.get(user.id, { fresh: true });
+  const earlierToday = existingUser
+    ? await sessionsRepository.list({ where: { userId: user.id, sessionDate: studyDay } }, { fresh: true })
+    : [];
+  const goalMet = isDailyGoalMet(getDailyGoal(existingUser), summarizeDay([...earlierToday, toSessionRow(write)]));
+
+  const previous: StreakState = existingUser ?? EMPTY_STREAK;
+  const { currentStreak, longestStreak, lastStudyDate, streakFreezes } = goalMet
+    ? recordStudyDay(previous, studyDay).state
+    : previous;
+  const streak = { currentStreak, longestStreak, lastStudyDate, streakFreezes };
+
+  await sessionsRepository.upsertMany([toSessionRow(write)]);
+
+  if (existingUser) {
+    await usersRepository.update(user.id, {
+      ...streak,
+      totalQuestionsAnswered: existingUser.totalQuestionsAnswered + questionsAnswered,
+      correctAnswers: existingUser.correctAnswers + correctAnswers,
+      updatedAt: new Date().toISOString()
+    });
+  } else {
+    await usersRepository.create({
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName || user.email.split('@')[0],
+      ...streak,
+      totalQuestionsAnswered: questionsAnswered,
+      correctAnswers,
+      dailyGoalQuestions: DEFAULT_DAILY_GOAL.questions,
+      dailyGoalMinutes: DEFAULT_DAILY_GOAL.minutes,
+      role: 'user',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+  }
+};
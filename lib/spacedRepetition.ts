@@ -0,0 +1,160 @@
+import { Question, shuffle } from '@/lib/questions';
+import { readLocal, writeLocal } from '@/lib/localStore';
+import { queueUpserts } from '@/lib/outbox';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { reviewsRepository } from '@/lib/repository';
+
+// Per-user, per-question SM-2 state, stored in the `questionReviews` table
+export interface ReviewState {
+  id: string;
+  userId: string;
+  questionId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string;
+}
+
+export interface ReviewOutcome {
+  questionId: string;
+  isCorrect: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const reviewId = (userId: string, questionId: string) => `review_${userId}_${questionId}`;
+
+// Binary correctness mapped onto the SM-2 0-5 quality scale
+const qualityFromAnswer = (isCorrect: boolean) => (isCorrect ? 4 : 1);
+
+export const scheduleReview = (
+  previous: ReviewState | null,
+  userId: string,
+  questionId: string,
+  isCorrect: boolean,
+  now = new Date()
+): ReviewState => {
+  const quality = qualityFromAnswer(isCorrect);
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+
+  let nextRepetitions = 0;
+  let nextInterval = 1;
+  if (quality >= 3) {
+    nextRepetitions = repetitions + 1;
+    if (repetitions === 0) nextInterval = 1;
+    else if (repetitions === 1) nextInterval = 6;
+    else nextInterval = Math.round(intervalDays * easeFactor);
+  }
+
+  const nextEase = Math.max(
+    MIN_EASE,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    id: reviewId(userId, questionId),
+    userId,
+    questionId,
+    easeFactor: Number(nextEase.toFixed(2)),
+    intervalDays: nextInterval,
+    repetitions: nextRepetitions,
+    lapses: (previous?.lapses ?? 0) + (quality < 3 ? 1 : 0),
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  };
+};
+
+const reviewCacheKey = (userId: string) => `questionReviews:${userId}`;
+
+// All of the user's review states, refreshed from Blink when reachable and
+// otherwise served from the last copy kept on the device
+const loadReviewStates = async (userId: string): Promise<Record<string, ReviewState>> => {
+  const cached = await readLocal<Record<string, ReviewState>>(reviewCacheKey(userId), {});
+  try {
+    const rows = await reviewsRepository.listAll({ where: { userId }, orderBy: { id: 'asc' } }, { fresh: true });
+    // Local states not yet synced are newer than what the server has
+    const merged = Object.fromEntries(rows.map(review => [review.questionId, review]));
+    Object.values(cached).forEach(review => {
+      const remote = merged[review.questionId];
+      if (!remote || remote.lastReviewedAt < review.lastReviewedAt) merged[review.questionId] = review;
+    });
+    await writeLocal(reviewCacheKey(userId), merged);
+    return merged;
+  } catch (error) {
+    console.error('Error fetching review states, using cached copy:', error);
+    return cached;
+  }
+};
+
+// Called alongside every userAnswers write so the schedule never drifts from
+// history. Scheduled against the local copy and queued, so it works offline.
+export const recordReviews = async (userId: string, outcomes: ReviewOutcome[]) => {
+  if (outcomes.length === 0) return;
+
+  const states = await readLocal<Record<string, ReviewState>>(reviewCacheKey(userId), {});
+  const missing = outcomes.map(outcome => outcome.questionId).filter(questionId => !states[questionId]);
+  if (missing.length > 0) {
+    try {
+      const existing = await reviewsRepository.list({
+        where: { userId, questionId: { in: missing } },
+        limit: missing.length
+      }, { fresh: true });
+      existing.forEach(review => {
+        states[review.questionId] = review;
+      });
+    } catch (error) {
+      console.error('Error fetching review states, scheduling as new:', error);
+    }
+  }
+
+  const updated = outcomes.map(outcome => {
+    const next = scheduleReview(states[outcome.questionId] ?? null, userId, outcome.questionId, outcome.isCorrect);
+    states[outcome.questionId] = next;
+    return next;
+  });
+
+  await writeLocal(reviewCacheKey(userId), states);
+  await queueUpserts('questionReviews', updated);
+};
+
+export const recordReview = (userId: string, questionId: string, isCorrect: boolean) =>
+  recordReviews(userId, [{ questionId, isCorrect }]);
+
+// Due reviews first (most overdue first), then unseen questions, then the
+// reviews coming up soonest if the bank is exhausted. `matches` narrows the
+// candidate questions (e.g. by category) at every stage. Runs entirely on the
+// cached bank and review states when offline.
+export const loadScheduledQuestions = async (
+  userId: string,
+  count: number,
+  matches: (question: Question) => boolean = () => true
+): Promise<Question[]> => {
+  if (count <= 0) return [];
+  const [bank, states] = await Promise.all([loadQuestionBank(), loadReviewStates(userId)]);
+  return pickScheduledQuestions(bank.filter(matches), Object.values(states), count);
+};
+
+const pickScheduledQuestions = (
+  candidates: Question[],
+  reviews: ReviewState[],
+  count: number,
+  now = new Date().toISOString()
+): Question[] => {
+  const byId = new Map(candidates.map(question => [question.id, question]));
+  const reviewed = new Set(reviews.map(review => review.questionId));
+  const ordered = [...reviews]
+    .filter(review => byId.has(review.questionId))
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+  const due = ordered.filter(review => review.dueAt <= now).map(review => byId.get(review.questionId)!);
+  const unseen = shuffle(candidates.filter(question => !reviewed.has(question.id)));
+  const upcoming = ordered.filter(review => review.dueAt > now).map(review => byId.get(review.questionId)!);
+
+  return [...due, ...unseen, ...upcoming].slice(0, count);
+};
@@ -0,0 +1,71 @@
+import { Question } from '@/lib/questions';
+import { isRetired } from '@/lib/questionBank';
+
+export interface CategoryStats {
+  category: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface GradedAnswer {
+  questionId: string;
+  isCorrect: number;
+  questionVersionId?: string | null;
+}
+
+// The question an answer counts towards; loadVersionLookup in
+// lib/questionVersions resolves the version that was actually answered
+export type QuestionLookup = (answer: GradedAnswer) => Question | undefined;
+
+export const lookupCurrent = (questions: Question[]): QuestionLookup => {
+  const questionMap = new Map(questions.map(question => [question.id, question]));
+  return answer => questionMap.get(answer.questionId);
+};
+
+export interface TimedAnswer {
+  timeSpentMs?: number | null;
+}
+
+// Answers to retired questions don't count: the question itself was at fault
+export const withoutRetiredAnswers = <T extends GradedAnswer>(answers: T[], questions: Question[]) => {
+  const retired = new Set(questions.filter(isRetired).map(question => question.id));
+  return answers.filter(answer => !retired.has(answer.questionId));
+};
+
+// Average seconds per answer, over answers recorded with timing; null if none
+export const averageSecondsPerQuestion = (answers: TimedAnswer[]) => {
+  const timed = answers.filter(answer => typeof answer.timeSpentMs === 'number' && answer.timeSpentMs > 0);
+  if (timed.length === 0) return null;
+  const totalMs = timed.reduce((sum, answer) => sum + Number(answer.timeSpentMs), 0);
+  return Math.round(totalMs / timed.length / 1000);
+};
+
+// Accuracy per question attribute (category by default), busiest groups first
+export const computeCategoryStats = (
+  answers: GradedAnswer[],
+  questionFor: QuestionLookup,
+  groupBy: 'category' | 'knowledgeArea' = 'category'
+): CategoryStats[] => {
+  const categoryMap = new Map<string, { total: number; correct: number }>();
+
+  answers.forEach(answer => {
+    const question = questionFor(answer);
+    if (question) {
+      const category = question[groupBy];
+      const current = categoryMap.get(category) || { total: 0, correct: 0 };
+
+      categoryMap.set(category, {
+        total: current.total + 1,
+        correct: current.correct + (Number(answer.isCorrect) > 0 ? 1 : 0)
+      });
+    }
+  });
+
+  return Array.from(categoryMap.entries()).map(([category, data]) => ({
+    category,
+    total: data.total,
+    correct: data.correct,
+    accuracy: data.total > 0 ? Math.round((data.correct / data.total) * 100) : 0
+  })).sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,104 @@
+// Streak days are calendar days in whatever timezone the device is in when
+// the user studies. Each study day is stamped once, at the time, so flying
+// across timezones later never moves a day that has already been counted.
+
+// A freeze covers one missed day; one is earned every FREEZE_EARN_DAYS days
+// of streak, and at most MAX_STREAK_FREEZES can be banked
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastStudyDate: string; // YYYY-MM-DD, local to where the user studied
+  streakFreezes: number;
+}
+
+export interface StreakUpdate {
+  state: StreakState;
+  freezesUsed: number;
+  freezeEarned: boolean;
+}
+
+export interface StreakStatus {
+  currentStreak: number; // 0 once the streak can no longer be saved
+  studiedToday: boolean;
+  atRisk: boolean; // missed at least one day, but banked freezes still cover it
+  freezesNeeded: number;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const localDateKey = (date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Whole calendar days from one date key to another, independent of timezone
+// and daylight saving because both keys are read as UTC midnights
+export const daysBetween = (from: string, to: string) => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (24 * 60 * 60 * 1000));
+};
+
+export const addDays = (dateKey: string, days: number) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export const EMPTY_STREAK: StreakState = {
+  currentStreak: 0,
+  longestStreak: 0,
+  lastStudyDate: '',
+  streakFreezes: 0,
+};
+
+// Folds one study day into the streak. Days at or before the last recorded
+// one (a second session, or a westward flight) leave it unchanged.
+export const recordStudyDay = (state: StreakState, studyDay: string): StreakUpdate => {
+  const unchanged = { state, freezesUsed: 0, freezeEarned: false };
+  if (!state.lastStudyDate) {
+    return { ...unchanged, state: { ...state, currentStreak: 1, longestStreak: Math.max(state.longestStreak, 1), lastStudyDate: studyDay } };
+  }
+
+  const gap = daysBetween(state.lastStudyDate, studyDay);
+  if (gap <= 0) return unchanged;
+
+  const missedDays = gap - 1;
+  const coverable = missedDays <= state.streakFreezes;
+  const freezesUsed = coverable ? missedDays : 0;
+  const currentStreak = coverable ? state.currentStreak + 1 : 1;
+
+  const freezeEarned = currentStreak % FREEZE_EARN_DAYS === 0 &&
+    state.streakFreezes - freezesUsed < MAX_STREAK_FREEZES;
+
+  return {
+    state: {
+      currentStreak,
+      longestStreak: Math.max(state.longestStreak, currentStreak),
+      lastStudyDate: studyDay,
+      streakFreezes: state.streakFreezes - freezesUsed + (freezeEarned ? 1 : 0),
+    },
+    freezesUsed,
+    freezeEarned,
+  };
+};
+
+// What the stored streak means today: stored values only change when the user
+// studies, so a streak that lapsed days ago still needs to read as 0 here
+export const getStreakStatus = (state: StreakState, today = localDateKey()): StreakStatus => {
+  if (!state.lastStudyDate) {
+    return { currentStreak: 0, studiedToday: false, atRisk: false, freezesNeeded: 0 };
+  }
+
+  const gap = daysBetween(state.lastStudyDate, today);
+  const freezesNeeded = Math.max(0, gap - 1);
+  const alive = freezesNeeded <= state.streakFreezes;
+
+  return {
+    currentStreak: alive ? state.currentStreak : 0,
+    studiedToday: gap <= 0,
+    atRisk: alive && freezesNeeded > 0,
+    freezesNeeded,
+  };
+};
@@ -0,0 +1,200 @@
+import { Question } from '@/lib/questions';
+import { StudySession } from '@/lib/schema';
+import { answersRepository, sessionsRepository } from '@/lib/repository';
+import { loadQuestionBank } from '@/lib/questionBank';
+import { listPendingSessions } from '@/lib/outbox';
+import { AreaWeights, computeAreaWeights } from '@/lib/adaptive';
+import { DOMAIN_WEIGHTS } from '@/lib/readiness';
+import { MOCK_EXAM } from '@/lib/mockExam';
+import { ECO_DOMAINS } from '@/lib/sessionConfig';
+import { DailyProgress, summarizeDay } from '@/lib/dailyGoal';
+import { Preferences } from '@/lib/preferences';
+import { addDays, daysBetween, localDateKey } from '@/lib/streak';
+
+export const WEEKLY_HOURS_OPTIONS = [3, 5, 8, 10, 15];
+
+export type PlanMilestone = 'mock_exam' | 'final_review';
+
+export const PLAN_MILESTONE_LABELS: Record<PlanMilestone, string> = {
+  mock_exam: 'Full mock exam',
+  final_review: 'Final review',
+};
+
+// Practice time per question, including reading the explanation afterwards
+const MINUTES_PER_QUESTION = 2;
+// Mock exams fall every few weeks, counting back from the final week so the
+// last one is always the week before the exam
+const MOCK_EXAM_INTERVAL_WEEKS = 3;
+const AREAS_PER_WEEK = 2;
+// Missed time is made up gradually: no week grows by more than this share
+const MAX_CATCH_UP_SHARE = 0.25;
+
+export interface PlanFocus {
+  domain: string;
+  knowledgeAreas: string[];
+  questions: number;
+}
+
+export interface PlanWeek {
+  index: number;
+  start: string; // YYYY-MM-DD
+  end: string;
+  minutes: number;
+  questions: number;
+  focus: PlanFocus[];
+  milestone: PlanMilestone | null;
+}
+
+export interface StudyPlan {
+  examDate: string;
+  weeks: PlanWeek[];
+  missedDays: number;
+  catchUpMinutes: number;
+  thisWeek: DailyProgress; // progress towards weeks[0], the current week
+}
+
+export interface StudyPlanInput {
+  examDate: string;
+  weeklyHours: number;
+  planStart: string;
+  today: string;
+  weights: AreaWeights;
+  knowledgeAreas: Map<string, string[]>; // by domain
+  studyDays: Set<string>;
+}
+
+// Days between the plan's start and yesterday with no study at all
+const countMissedDays = (planStart: string, today: string, studyDays: Set<string>) => {
+  let missed = 0;
+  for (let day = planStart; daysBetween(day, today) > 0; day = addDays(day, 1)) {
+    if (!studyDays.has(day)) missed++;
+  }
+  return missed;
+};
+
+// Domains by exam weight, nudged toward the ones being missed (error weights
+// sit around 0.5, so an average domain keeps its exam share)
+const splitByDomain = (questions: number, weights: AreaWeights) => {
+  const shares = ECO_DOMAINS.map(domain => ({
+    domain,
+    share: DOMAIN_WEIGHTS[domain] * (0.5 + (weights.byCategory.get(domain) ?? 0.5))
+  }));
+  const total = shares.reduce((sum, entry) => sum + entry.share, 0);
+  return shares.map(entry => ({ domain: entry.domain, questions: Math.round((questions * entry.share) / total) }));
+};
+
+// Weakest areas come first and the rest rotate in, so every area is covered
+// before the exam; the final week goes back to the weakest
+const pickAreas = (areas: string[], weights: AreaWeights, weekIndex: number, finalWeek: boolean) => {
+  const ordered = [...areas].sort(
+    (a, b) => (weights.byKnowledgeArea.get(b) ?? 0.5) - (weights.byKnowledgeArea.get(a) ?? 0.5)
+  );
+  if (ordered.length <= AREAS_PER_WEEK || finalWeek) return ordered.slice(0, AREAS_PER_WEEK);
+  return Array.from({ length: AREAS_PER_WEEK }, (_, k) => ordered[(weekIndex * AREAS_PER_WEEK + k) % ordered.length]);
+};
+
+const milestoneFor = (index: number, weekCount: number): PlanMilestone | null => {
+  const weeksBeforeFinal = weekCount - 1 - index;
+  if (weeksBeforeFinal === 0) return 'final_review';
+  return (weeksBeforeFinal - 1) % MOCK_EXAM_INTERVAL_WEEKS === 0 ? 'mock_exam' : null;
+};
+
+// Plan weeks run in seven-day blocks from the day the plan started
+export const currentWeekStart = (planStart: string, today: string) =>
+  addDays(planStart, Math.floor(Math.max(0, daysBetween(planStart, today)) / 7) * 7);
+
+// Regenerated from scratch on every load, which is what keeps it balanced:
+// accuracy shifts the domain split and missed days add catch-up time
+export const generateStudyPlan = (input: StudyPlanInput): Omit<StudyPlan, 'thisWeek'> | null => {
+  const { examDate, weeklyHours, planStart, today, weights, knowledgeAreas, studyDays } = input;
+  if (daysBetween(today, examDate) <= 0 || weeklyHours <= 0) return null;
+  const firstWeek = currentWeekStart(planStart, today);
+  const daysLeft = daysBetween(firstWeek, examDate);
+
+  const weekCount = Math.ceil(daysLeft / 7);
+  const dailyMinutes = (weeklyHours * 60) / 7;
+  const missedDays = daysBetween(planStart, today) > 0 ? countMissedDays(planStart, today, studyDays) : 0;
+  const catchUpMinutes = Math.round(missedDays * dailyMinutes);
+  let catchUpLeft = catchUpMinutes;
+
+  const weeks = Array.from({ length: weekCount }, (_, index): PlanWeek => {
+    const start = addDays(firstWeek, index * 7);
+    const days = Math.min(7, daysLeft - index * 7);
+    const baseMinutes = dailyMinutes * days;
+    const catchUp = Math.min(catchUpLeft, baseMinutes * MAX_CATCH_UP_SHARE);
+    catchUpLeft -= catchUp;
+
+    const minutes = Math.round(baseMinutes + catchUp);
+    const milestone = milestoneFor(index, weekCount);
+    const practiceMinutes = Math.max(0, minutes - (milestone === 'mock_exam' ? MOCK_EXAM.durationMinutes : 0));
+    const questions = Math.round(practiceMinutes / MINUTES_PER_QUESTION);
+
+    return {
+      index,
+      start,
+      end: addDays(start, days - 1),
+      minutes,
+      questions,
+      milestone,
+      focus: splitByDomain(questions, weights)
+        .filter(entry => entry.questions > 0)
+        .map(entry => ({
+          ...entry,
+          knowledgeAreas: pickAreas(knowledgeAreas.get(entry.domain) ?? [], weights, index, milestone === 'final_review')
+        }))
+    };
+  });
+
+  return { examDate, weeks, missedDays, catchUpMinutes };
+};
+
+const groupKnowledgeAreas = (questions: Question[]) => {
+  const byDomain = new Map<string, Set<string>>();
+  questions.forEach(question => {
+    if (!question.knowledgeArea) return;
+    const areas = byDomain.get(question.category) || new Set<string>();
+    areas.add(question.knowledgeArea);
+    byDomain.set(question.category, areas);
+  });
+  return new Map(Array.from(byDomain.entries()).map(([domain, areas]) => [domain, Array.from(areas).sort()]));
+};
+
+// Null until both an exam date and weekly hours are set
+export const loadStudyPlan = async (userId: string, preferences: Preferences): Promise<StudyPlan | null> => {
+  const { examDate, weeklyHours, studyPlanStart } = preferences;
+  if (!examDate || !weeklyHours) return null;
+  const today = localDateKey();
+  const planStart = studyPlanStart ?? today;
+
+  const [answers, synced, pending, questions] = await Promise.all([
+    answersRepository.list({ where: { userId }, orderBy: { answeredAt: 'desc' }, limit: 500 }).catch(error => {
+      console.error('Error loading answer history:', error);
+      return [];
+    }),
+    sessionsRepository.list({ where: { userId }, orderBy: { sessionDate: 'desc' }, limit: 200 }).catch(error => {
+      console.error('Error loading study sessions:', error);
+      return [] as StudySession[];
+    }),
+    listPendingSessions(),
+    loadQuestionBank()
+  ]);
+
+  const byId = new Map([...synced, ...pending.filter(session => session.userId === userId)]
+    .map(session => [session.id, session]));
+  const sessions = Array.from(byId.values()).filter(session => session.sessionDate >= planStart);
+
+  const plan = generateStudyPlan({
+    examDate,
+    weeklyHours,
+    planStart,
+    today,
+    weights: computeAreaWeights(answers, questions),
+    knowledgeAreas: groupKnowledgeAreas(questions),
+    studyDays: new Set(sessions.map(session => session.sessionDate))
+  });
+  if (!plan) return null;
+
+  const weekStart = currentWeekStart(planStart, today);
+  const thisWeek = summarizeDay(sessions.filter(session => session.sessionDate >= weekStart));
+  return { ...plan, thisWeek };
+};